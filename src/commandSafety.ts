@@ -0,0 +1,164 @@
+/**
+ * Static safety check for verification commands, run on the rendered command before a plan is
+ * stored. Substituted values are shell-quoted (see TaskExecutor.renderPlanText), so this mostly
+ * guards against templates that are unsafe themselves. It is a deny-list, not a sandbox: the
+ * runner's working directory, environment allow-list and timeout still apply.
+ */
+
+type Piece = { word: string } | { op: string };
+
+// Programs a verification command must never run.
+const BLOCKED_PROGRAMS = new Set(['sudo', 'su', 'doas', 'dd', 'eval', 'shutdown', 'reboot', 'halt', 'poweroff']);
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish']);
+const SEPARATORS = new Set([';', '&&', '||', '|', '&']);
+const SAFE_REDIRECT_TARGETS = new Set(['/dev/null', '/dev/stdout', '/dev/stderr']);
+// `bash -c "bash -c '...'"` is checked this many shells deep, and refused beyond that.
+const MAX_SHELL_DEPTH = 3;
+
+/**
+ * Split a command into words (quotes removed) and operators, roughly as a POSIX shell would.
+ */
+function lex(command: string, issues: Set<string>): Piece[] {
+  const pieces: Piece[] = [];
+  let word: string | undefined;
+  const flush = () => {
+    if (word !== undefined) pieces.push({ word });
+    word = undefined;
+  };
+
+  let i = 0;
+  while (i < command.length) {
+    const c = command[i];
+    if (c === '\n') {
+      flush();
+      pieces.push({ op: ';' });
+      i++;
+    } else if (/\s/.test(c)) {
+      flush();
+      i++;
+    } else if (c === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end < 0) {
+        issues.add('unbalanced quotes');
+        word = (word ?? '') + command.slice(i + 1);
+        break;
+      }
+      word = (word ?? '') + command.slice(i + 1, end);
+      i = end + 1;
+    } else if (c === '"') {
+      let text = '';
+      let j = i + 1;
+      while (j < command.length && command[j] !== '"') {
+        if (command[j] === '\\' && j + 1 < command.length) {
+          text += command[j + 1];
+          j += 2;
+          continue;
+        }
+        if (command[j] === '`' || command.startsWith('$(', j)) issues.add('command substitution');
+        text += command[j];
+        j++;
+      }
+      if (j >= command.length) issues.add('unbalanced quotes');
+      word = (word ?? '') + text;
+      i = j + 1;
+    } else if (c === '\\') {
+      word = (word ?? '') + (command[i + 1] ?? '');
+      i += 2;
+    } else {
+      const op = command.slice(i).match(/^(&&|\|\||>>|[;&|<>])/)?.[0];
+      if (!op) {
+        if (c === '`' || command.startsWith('$(', i)) issues.add('command substitution');
+        word = (word ?? '') + c;
+        i++;
+        continue;
+      }
+      flush();
+      i += op.length;
+      // `2>&1` and friends duplicate a file descriptor; there is no target to check.
+      if ((op === '>' || op === '>>') && /^&\d/.test(command.slice(i))) {
+        i += 2;
+        continue;
+      }
+      pieces.push({ op });
+    }
+  }
+  flush();
+  return pieces;
+}
+
+/**
+ * The script of a shell run as `sh -c '<script>'` (also `-ec`, `-lc`, ...), if any.
+ */
+function shellScript(args: string[]): string | undefined {
+  const flag = args.findIndex((a) => /^-[A-Za-z]*c[A-Za-z]*$/.test(a));
+  if (flag < 0) return undefined;
+  return args.slice(flag + 1).find((a) => !a.startsWith('-'));
+}
+
+function checkCommand(words: string[], pipedInto: boolean, issues: Set<string>, depth: number): void {
+  // Skip leading VAR=value assignments.
+  const start = words.findIndex((w) => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(w));
+  if (start < 0) return;
+  const program = words[start].split('/').at(-1)!;
+  const args = words.slice(start + 1);
+
+  if (BLOCKED_PROGRAMS.has(program) || program.startsWith('mkfs')) issues.add(`runs ${program}`);
+  if (pipedInto && SHELLS.has(program)) issues.add(`pipes into a shell (${program})`);
+  if (SHELLS.has(program)) {
+    // The script of `bash -c` is a command line of its own; check it like the outer one.
+    const script = shellScript(args);
+    if (script !== undefined) {
+      if (depth >= MAX_SHELL_DEPTH) issues.add(`nests shells more than ${MAX_SHELL_DEPTH} deep`);
+      else collectIssues(script, issues, depth + 1);
+    }
+  }
+  if (program === 'rm') {
+    const flags = args.filter((a) => a.startsWith('-'));
+    const recursive = flags.some((f) => f === '--recursive' || /^-[^-]*[rR]/.test(f));
+    const force = flags.some((f) => f === '--force' || /^-[^-]*f/.test(f));
+    if (recursive && force) issues.add('recursive forced delete (rm -rf)');
+  }
+}
+
+/**
+ * Reasons a rendered verification command is refused; empty when it passes. Flags command
+ * substitution, unbalanced quotes, background jobs, blocked programs (sudo, dd, mkfs, ...),
+ * `rm -rf`, piping into a shell and redirecting output outside the working directory, also inside
+ * the script of `sh -c` / `bash -c`.
+ */
+export function commandSafetyIssues(command: string): string[] {
+  const issues = new Set<string>();
+  collectIssues(command, issues, 0);
+  return [...issues];
+}
+
+function collectIssues(command: string, issues: Set<string>, depth: number): void {
+  const pieces = lex(command, issues);
+
+  let words: string[] = [];
+  let pipedInto = false;
+  for (let i = 0; i <= pieces.length; i++) {
+    const piece = pieces[i];
+    const op = piece && 'op' in piece ? piece.op : undefined;
+    if (piece === undefined || (op !== undefined && SEPARATORS.has(op))) {
+      checkCommand(words, pipedInto, issues, depth);
+      words = [];
+      pipedInto = op === '|';
+      if (op === '&') issues.add('runs a command in the background');
+      continue;
+    }
+    if ('op' in piece) {
+      const target = pieces[i + 1];
+      if (piece.op !== '<' && target && 'word' in target) {
+        const file = target.word;
+        const outside = file.startsWith('~') || file.split('/').includes('..') || file.startsWith('/');
+        if (outside && !SAFE_REDIRECT_TARGETS.has(file)) {
+          issues.add(`writes to ${file} outside the working directory`);
+        }
+      }
+      i++;
+      continue;
+    }
+    words.push(piece.word);
+  }
+}
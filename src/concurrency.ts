@@ -0,0 +1,64 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Hex sha256 of a UTF-8 string. Used for MCD content addressing and write preconditions.
+ */
+export function sha256(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+/**
+ * Raised when an optimistic-concurrency write finds the stored document changed
+ * since the caller read it. Carries the current hash so the caller can re-read and retry.
+ */
+export class ConflictError extends Error {
+  readonly expected_sha256: string;
+  /** Null when the document no longer exists. */
+  readonly current_sha256: string | null;
+
+  constructor(label: string, expected: string, current: string | null) {
+    super(
+      current === null
+        ? `Conflict writing ${label}: expected sha256 ${expected} but it does not exist`
+        : `Conflict writing ${label}: expected sha256 ${expected} but current is ${current}`
+    );
+    this.name = 'ConflictError';
+    this.expected_sha256 = expected;
+    this.current_sha256 = current;
+  }
+}
+
+/**
+ * Throw a ConflictError unless `expected` is omitted or matches the current hash.
+ */
+export function assertExpectedSha256(
+  label: string,
+  expected: string | undefined,
+  current: string | null
+): void {
+  if (expected === undefined) return;
+  if (current === null || current.toLowerCase() !== expected.toLowerCase()) {
+    throw new ConflictError(label, expected, current);
+  }
+}
+
+/**
+ * Tail of the pending read-modify-write operations per file, shared by all stores in this process.
+ */
+const fileLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `fn` after every earlier operation on `filePath` has settled, so a check of the stored file
+ * and the write that depends on it happen without another write in between. Holds within this
+ * process only.
+ */
+export async function withFileLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+  const run = (fileLocks.get(filePath) ?? Promise.resolve()).then(fn, fn);
+  const tail = run.catch(() => undefined);
+  fileLocks.set(filePath, tail);
+  try {
+    return await run;
+  } finally {
+    if (fileLocks.get(filePath) === tail) fileLocks.delete(filePath);
+  }
+}
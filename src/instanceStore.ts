@@ -2,7 +2,35 @@ import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
 import * as path from 'node:path';
 import { randomUUID } from 'node:crypto';
 import { validateSchema } from './schema.js';
-import { TaskTemplateStore } from './templateStore.js';
+import { withFileLock } from './concurrency.js';
+import { TaskTemplateStore, templateDeprecationNotice } from './templateStore.js';
+
+export type TaskInstanceStatus = 'pending' | 'prepared' | 'executing' | 'executed' | 'failed';
+
+/**
+ * One lifecycle transition of a task instance.
+ */
+export type TaskInstanceHistoryEntry = {
+  at: string;
+  actor: string;
+  from: TaskInstanceStatus;
+  to: TaskInstanceStatus;
+  plan_id?: string;
+  note?: string;
+};
+
+/**
+ * Allowed lifecycle transitions. `prepared → prepared` permits re-preparing a plan,
+ * `failed → prepared` permits a retry; `executed` is terminal. `executing` is entered before a
+ * plan's first side effect, so a second execution of the same instance is rejected.
+ */
+const ALLOWED_TRANSITIONS: Record<TaskInstanceStatus, TaskInstanceStatus[]> = {
+  pending: ['prepared'],
+  prepared: ['prepared', 'executing'],
+  executing: ['executed', 'failed'],
+  failed: ['prepared'],
+  executed: []
+};
 
 /**
  * A Task Instance is a project-specific instantiation of a Task Template.
@@ -17,7 +45,10 @@ export type TaskInstance = {
   mcd_hash: string;
   domain_profiles: string[];
   created_at: string;
-  status?: 'pending' | 'prepared' | 'executed' | 'failed';
+  status?: TaskInstanceStatus;
+  history?: TaskInstanceHistoryEntry[];
+  outputs?: Record<string, unknown>;
+  outputs_plan_id?: string;
 };
 
 const TASK_INSTANCE_SCHEMA = {
@@ -47,8 +78,25 @@ const TASK_INSTANCE_SCHEMA = {
     created_at: { type: 'string' },
     status: {
       type: 'string',
-      enum: ['pending', 'prepared', 'executed', 'failed']
-    }
+      enum: ['pending', 'prepared', 'executing', 'executed', 'failed']
+    },
+    history: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['at', 'actor', 'from', 'to'],
+        properties: {
+          at: { type: 'string' },
+          actor: { type: 'string' },
+          from: { type: 'string' },
+          to: { type: 'string' },
+          plan_id: { type: 'string' },
+          note: { type: 'string' }
+        }
+      }
+    },
+    outputs: { type: 'object' },
+    outputs_plan_id: { type: 'string' }
   }
 } as const;
 
@@ -139,6 +187,10 @@ export class TaskInstanceStore {
   ): Promise<TaskInstance> {
     // Load the template to validate inputs
     const template = await this.templateStore.loadTemplate(templateId, templateVersion);
+    const deprecation = templateDeprecationNotice(template);
+    if (deprecation) {
+      throw new Error(`Cannot generate an instance: ${deprecation}`);
+    }
 
     // Validate inputs against template's input schema
     const inputValidation = validateSchema(template.inputs_schema, inputs);
@@ -178,4 +230,96 @@ export class TaskInstanceStore {
 
     return instance;
   }
+
+  /**
+   * Persist the validated outputs produced by executing a plan for this instance.
+   */
+  async recordOutputs(
+    projectSlug: string,
+    instanceId: string,
+    outputs: Record<string, unknown>,
+    planId: string
+  ): Promise<TaskInstance> {
+    const filePath = this.instancePath(projectSlug, instanceId);
+    return withFileLock(filePath, async () => {
+      const instance = await this.getInstance(projectSlug, instanceId);
+
+      instance.outputs = outputs;
+      instance.outputs_plan_id = planId;
+
+      await writeFile(filePath, JSON.stringify(instance, null, 2), 'utf8');
+
+      return instance;
+    });
+  }
+
+  /**
+   * Throw if the instance may not move to `to` from its current status.
+   */
+  assertTransition(instance: TaskInstance, to: TaskInstanceStatus): void {
+    const from = instance.status ?? 'pending';
+    if (!ALLOWED_TRANSITIONS[from].includes(to)) {
+      const allowed = ALLOWED_TRANSITIONS[from];
+      throw new Error(
+        `Illegal task instance transition for '${instance.instance_id}': ${from} → ${to} ` +
+          `(allowed from ${from}: ${allowed.length > 0 ? allowed.join(', ') : 'none'})`
+      );
+    }
+  }
+
+  /**
+   * The plan of the instance's latest move to `prepared`; only that plan may be executed.
+   */
+  currentPlanId(instance: TaskInstance): string | undefined {
+    return [...(instance.history ?? [])].reverse().find((e) => e.to === 'prepared')?.plan_id;
+  }
+
+  /**
+   * Throw if `planId` is not the instance's current plan (a newer plan was prepared since).
+   */
+  assertCurrentPlan(instance: TaskInstance, planId: string): void {
+    const current = this.currentPlanId(instance);
+    if (current !== planId) {
+      throw new Error(
+        `Plan ${planId} is not the current plan of task instance '${instance.instance_id}' ` +
+          `(current: ${current ?? 'none'}); execute the latest prepared plan or prepare again`
+      );
+    }
+  }
+
+  /**
+   * Move an instance to a new lifecycle status, appending a history entry.
+   * Rejects transitions not permitted by the lifecycle and, when `currentPlanId` is given, plans
+   * that are not the instance's current plan. The check and the write are atomic within this
+   * process, so this is a compare-and-set on the status.
+   */
+  async transition(
+    projectSlug: string,
+    instanceId: string,
+    to: TaskInstanceStatus,
+    details: { actor: string; plan_id?: string; note?: string; currentPlanId?: string }
+  ): Promise<TaskInstance> {
+    const filePath = this.instancePath(projectSlug, instanceId);
+    return withFileLock(filePath, async () => {
+      const instance = await this.getInstance(projectSlug, instanceId);
+      this.assertTransition(instance, to);
+      if (details.currentPlanId) this.assertCurrentPlan(instance, details.currentPlanId);
+
+      const entry: TaskInstanceHistoryEntry = {
+        at: new Date().toISOString(),
+        actor: details.actor,
+        from: instance.status ?? 'pending',
+        to
+      };
+      if (details.plan_id) entry.plan_id = details.plan_id;
+      if (details.note) entry.note = details.note;
+
+      instance.status = to;
+      instance.history = [...(instance.history ?? []), entry];
+
+      await writeFile(filePath, JSON.stringify(instance, null, 2), 'utf8');
+
+      return instance;
+    });
+  }
 }
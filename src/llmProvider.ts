@@ -0,0 +1,114 @@
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type ChatResponse = {
+  text: string;
+  raw: unknown;
+};
+
+export type ChatOptions = {
+  model?: string;
+  temperature?: number;
+  /** Request a streamed reply; `onDelta` receives each content fragment as it arrives. */
+  stream?: boolean;
+  onDelta?: (delta: string, text: string) => void;
+  /** Abort each request attempt after this long. Defaults to `<PREFIX>_TIMEOUT_MS`, or 120000. */
+  timeoutMs?: number;
+  /** Cancels the request (e.g. when the MCP client cancels the tool call). */
+  signal?: AbortSignal;
+  /** `json` asks the backend for a JSON object reply (`response_format: json_object`). */
+  responseFormat?: 'text' | 'json';
+};
+
+export type ProviderCapabilities = {
+  streaming: boolean;
+  /** Runs on the local machine or network (no hosted API, usually no key). */
+  local: boolean;
+};
+
+/**
+ * A chat model backend. `model` in the options is the provider's own model name (without the
+ * `provider:` prefix); when omitted the provider uses its default model.
+ */
+export interface LlmProvider {
+  readonly id: string;
+  capabilities(): ProviderCapabilities;
+  /** Model used when a call does not name one. */
+  defaultModel(): string;
+  /** Whether the provider has the settings it needs (e.g. an API key). */
+  configured(): boolean;
+  chat(messages: ChatMessage[], options?: Omit<ChatOptions, 'stream' | 'onDelta'>): Promise<ChatResponse>;
+  stream(
+    messages: ChatMessage[],
+    options: Omit<ChatOptions, 'stream' | 'onDelta'> & { onDelta: NonNullable<ChatOptions['onDelta']> }
+  ): Promise<ChatResponse>;
+}
+
+export type ModelRef = {
+  provider: LlmProvider;
+  /** Model name passed to the provider; undefined means the provider's default. */
+  model?: string;
+};
+
+/**
+ * Routes chat calls to providers by a `provider:model` model string. A prefix that is not a
+ * registered provider id is treated as part of the model name (so `llama3:8b` stays intact), and
+ * such models go to the default provider.
+ */
+export class ProviderRegistry {
+  private readonly providers = new Map<string, LlmProvider>();
+
+  constructor(private readonly defaultProviderId: () => string) {}
+
+  register(provider: LlmProvider): this {
+    this.providers.set(provider.id, provider);
+    return this;
+  }
+
+  defaultProvider(): LlmProvider {
+    return this.get(this.defaultProviderId());
+  }
+
+  list(): LlmProvider[] {
+    return [...this.providers.values()];
+  }
+
+  get(id: string): LlmProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Unknown LLM provider '${id}'. Available: ${[...this.providers.keys()].join(', ')}`);
+    }
+    return provider;
+  }
+
+  resolve(model?: string): ModelRef {
+    if (model) {
+      const sep = model.indexOf(':');
+      if (sep > 0 && this.providers.has(model.slice(0, sep))) {
+        const name = model.slice(sep + 1);
+        return { provider: this.get(model.slice(0, sep)), model: name.length > 0 ? name : undefined };
+      }
+    }
+    return { provider: this.defaultProvider(), model };
+  }
+
+  /**
+   * Send a chat to the provider named by `options.model`. Streaming falls back to a single
+   * delta carrying the whole reply when the provider cannot stream.
+   */
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResponse> {
+    const { provider, model } = this.resolve(options.model);
+    const { stream, onDelta, ...rest } = options;
+    const callOptions = { ...rest, model };
+
+    if (stream && onDelta) {
+      if (provider.capabilities().streaming) return provider.stream(messages, { ...callOptions, onDelta });
+      const out = await provider.chat(messages, callOptions);
+      onDelta(out.text, out.text);
+      return out;
+    }
+    return provider.chat(messages, callOptions);
+  }
+}
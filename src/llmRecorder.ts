@@ -0,0 +1,119 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import * as path from 'node:path';
+
+import { sha256 } from './concurrency.js';
+import type { ChatMessage, ChatOptions, ChatResponse, ProviderRegistry } from './llmProvider.js';
+
+/**
+ * - `live`: call the provider, store nothing
+ * - `record`: call the provider and store every response
+ * - `replay`: serve stored responses only; a call without a recording fails
+ */
+export type LlmMode = 'live' | 'record' | 'replay';
+
+const MODES: readonly LlmMode[] = ['live', 'record', 'replay'];
+
+export type LlmRecording = {
+  key: string;
+  recorded_at: string;
+  request: {
+    model: string;
+    temperature: number | null;
+    response_format: 'text' | 'json';
+    messages: ChatMessage[];
+  };
+  response: ChatResponse;
+};
+
+export type LlmRecorderOptions = {
+  mode?: LlmMode;
+  /** Where recordings are stored. Defaults to `.warpos/recordings` under the working directory. */
+  dir?: string;
+};
+
+export function llmModeFromEnv(): LlmMode {
+  const raw = process.env.WARPOS_LLM_MODE?.trim().toLowerCase();
+  if (!raw) return 'live';
+  if (!(MODES as readonly string[]).includes(raw)) {
+    throw new Error(`WARPOS_LLM_MODE must be one of: ${MODES.join(', ')}`);
+  }
+  return raw as LlmMode;
+}
+
+/**
+ * Record/replay layer in front of a ProviderRegistry. Recordings are keyed by the sha256 of the
+ * resolved `provider:model`, the temperature and the messages, so the same prompt sent to the same
+ * model replays the same reply. Cancellation, timeouts and streaming do not affect the key; a
+ * replayed reply is delivered to `onDelta` as a single fragment.
+ */
+export class LlmRecorder {
+  readonly mode: LlmMode;
+  private readonly dir: string;
+
+  constructor(
+    private readonly providers: ProviderRegistry,
+    options: LlmRecorderOptions = {}
+  ) {
+    this.mode = options.mode ?? 'live';
+    this.dir = options.dir ?? path.join(process.cwd(), '.warpos', 'recordings');
+  }
+
+  /**
+   * The request fields that identify a recording. The model is resolved to its provider and
+   * default so `zai:` and an unprefixed call to the default provider share recordings. Options that
+   * only affect transport (streaming, timeout, signal) are not part of the key.
+   */
+  requestKey(messages: ChatMessage[], options: ChatOptions = {}): { key: string; request: LlmRecording['request'] } {
+    const { provider, model } = this.providers.resolve(options.model);
+    const request = {
+      model: `${provider.id}:${model ?? provider.defaultModel()}`,
+      temperature: options.temperature ?? null,
+      response_format: options.responseFormat ?? 'text',
+      messages: messages.map((m) => ({ role: m.role, content: m.content }))
+    };
+    return { key: sha256(JSON.stringify(request)), request };
+  }
+
+  recordingPath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResponse> {
+    if (this.mode === 'live') return this.providers.chat(messages, options);
+
+    const { key, request } = this.requestKey(messages, options);
+
+    if (this.mode === 'replay') {
+      const recording = await this.load(key);
+      if (!recording) {
+        throw new Error(
+          `No recorded response for ${request.model} (key ${key.slice(0, 12)}) in ${this.dir}. ` +
+            'Run once with WARPOS_LLM_MODE=record to capture it.'
+        );
+      }
+      options.signal?.throwIfAborted();
+      if (options.stream) options.onDelta?.(recording.response.text, recording.response.text);
+      return recording.response;
+    }
+
+    const response = await this.providers.chat(messages, options);
+    const recording: LlmRecording = {
+      key,
+      recorded_at: new Date().toISOString(),
+      request,
+      response: { text: response.text, raw: response.raw }
+    };
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.recordingPath(key), JSON.stringify(recording, null, 2) + '\n', 'utf8');
+    return response;
+  }
+
+  private async load(key: string): Promise<LlmRecording | undefined> {
+    try {
+      return JSON.parse(await readFile(this.recordingPath(key), 'utf8')) as LlmRecording;
+    } catch (err: unknown) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') return undefined;
+      throw err;
+    }
+  }
+}
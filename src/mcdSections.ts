@@ -0,0 +1,231 @@
+import YAML from 'yaml';
+
+/**
+ * A heading-delimited section of an MCD. `markdown` is the heading line plus everything
+ * up to the next heading of the same or higher level (so it includes subsections).
+ */
+export type McdSection = {
+  title: string;
+  level: number;
+  /** Titles from the outermost ancestor down to this section. */
+  path: string[];
+  /** Canonical selector for this section (path joined with `/`). */
+  selector: string;
+  /** 1-based line range within the document (frontmatter included in numbering). */
+  start_line: number;
+  end_line: number;
+  markdown: string;
+  children: McdSection[];
+};
+
+export type ParsedMcd = {
+  frontmatter?: Record<string, unknown>;
+  /** Raw frontmatter YAML text, without the `---` fences. */
+  frontmatter_yaml?: string;
+  sections: McdSection[];
+};
+
+export type McdSelection = {
+  selector: string;
+  markdown: string;
+};
+
+export const FRONTMATTER_SELECTOR = '@frontmatter';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function normalizeTitle(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function escapeSegment(title: string): string {
+  return title.replace(/\\/g, '\\\\').replace(/\//g, '\\/');
+}
+
+/**
+ * Split a selector on unescaped `/`. `\/` and `\\` are literal slash/backslash.
+ */
+export function parseSelector(selector: string): string[] {
+  const segments: string[] = [];
+  let current = '';
+  for (let i = 0; i < selector.length; i++) {
+    const c = selector[i];
+    if (c === '\\' && i + 1 < selector.length) {
+      current += selector[++i];
+    } else if (c === '/') {
+      segments.push(current);
+      current = '';
+    } else {
+      current += c;
+    }
+  }
+  segments.push(current);
+  return segments.map((s) => s.trim()).filter((s) => s.length > 0);
+}
+
+/**
+ * Parse an MCD into optional YAML frontmatter and a tree of ATX heading sections.
+ * Headings inside fenced code blocks are ignored. `name` identifies the document in errors.
+ */
+export function parseMcd(markdown: string, name = 'MCD'): ParsedMcd {
+  const lines = markdown.split(/\r?\n/);
+  const out: ParsedMcd = { sections: [] };
+
+  let bodyStart = 0;
+  if (lines[0]?.trim() === '---') {
+    const close = lines.findIndex((l, i) => i > 0 && (l.trim() === '---' || l.trim() === '...'));
+    if (close > 0) {
+      const yamlText = lines.slice(1, close).join('\n');
+      let parsed: unknown;
+      try {
+        parsed = YAML.parse(yamlText) as unknown;
+      } catch (err) {
+        throw new Error(`${name} has invalid YAML frontmatter: ${(err as Error).message}`);
+      }
+      if (isRecord(parsed)) out.frontmatter = parsed;
+      out.frontmatter_yaml = yamlText;
+      bodyStart = close + 1;
+    }
+  }
+
+  // Collect headings outside code fences.
+  const headings: Array<{ index: number; level: number; title: string }> = [];
+  let fence: string | undefined;
+  for (let i = bodyStart; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1][0];
+      else if (fenceMatch[1][0] === fence) fence = undefined;
+      continue;
+    }
+    if (fence) continue;
+
+    const m = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (m && m[2].length > 0) {
+      headings.push({ index: i, level: m[1].length, title: m[2].trim() });
+    }
+  }
+
+  // Build the tree: a section ends before the next heading of the same or higher level.
+  const stack: McdSection[] = [];
+  headings.forEach((h, idx) => {
+    let end = lines.length - 1;
+    for (let j = idx + 1; j < headings.length; j++) {
+      if (headings[j].level <= h.level) {
+        end = headings[j].index - 1;
+        break;
+      }
+    }
+    // Drop trailing blank lines from the section body.
+    while (end > h.index && lines[end].trim() === '') end--;
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= h.level) stack.pop();
+    const parent = stack[stack.length - 1];
+    const path = parent ? [...parent.path, h.title] : [h.title];
+
+    const section: McdSection = {
+      title: h.title,
+      level: h.level,
+      path,
+      selector: path.map(escapeSegment).join('/'),
+      start_line: h.index + 1,
+      end_line: end + 1,
+      markdown: lines.slice(h.index, end + 1).join('\n'),
+      children: []
+    };
+
+    if (parent) parent.children.push(section);
+    else out.sections.push(section);
+    stack.push(section);
+  });
+
+  return out;
+}
+
+/**
+ * Depth-first list of every section in document order.
+ */
+export function flattenSections(doc: ParsedMcd): McdSection[] {
+  const out: McdSection[] = [];
+  const walk = (sections: McdSection[]) => {
+    for (const s of sections) {
+      out.push(s);
+      walk(s.children);
+    }
+  };
+  walk(doc.sections);
+  return out;
+}
+
+/**
+ * Find sections matching a selector. Segments are heading titles (case-insensitive,
+ * whitespace-normalized) that must match consecutive ancestors ending at the section;
+ * the first segment may match at any depth, so `Core Requirements/Endpoints` works
+ * regardless of the document title above it. `*` matches any single heading.
+ */
+export function findSections(doc: ParsedMcd, selector: string): McdSection[] {
+  const segments = parseSelector(selector).map(normalizeTitle);
+  if (segments.length === 0) return [];
+
+  return flattenSections(doc).filter((s) => {
+    if (s.path.length < segments.length) return false;
+    const tail = s.path.slice(s.path.length - segments.length).map(normalizeTitle);
+    return segments.every((seg, i) => seg === '*' || seg === tail[i]);
+  });
+}
+
+/**
+ * Resolve selectors to markdown slices. `@frontmatter` selects the whole frontmatter,
+ * `@frontmatter/<key>` a single top-level key. A slice selected more than once, or contained in
+ * another selected slice (by any selector), is included once. Throws listing the available
+ * selectors when any selector matches nothing.
+ */
+export function selectSections(doc: ParsedMcd, selectors: string[]): McdSelection[] {
+  const picked: McdSelection[] = [];
+  const unmatched: string[] = [];
+
+  for (const selector of selectors) {
+    const segments = parseSelector(selector);
+
+    if (segments[0] === FRONTMATTER_SELECTOR) {
+      const key = segments.slice(1).join('/');
+      if (!doc.frontmatter || (key && !(key in doc.frontmatter))) {
+        unmatched.push(selector);
+        continue;
+      }
+      const value = key ? { [key]: doc.frontmatter[key] } : doc.frontmatter;
+      picked.push({
+        selector: key ? `${FRONTMATTER_SELECTOR}/${key}` : FRONTMATTER_SELECTOR,
+        markdown: `---\n${YAML.stringify(value).trimEnd()}\n---`
+      });
+      continue;
+    }
+
+    const matches = findSections(doc, selector);
+    if (matches.length === 0) {
+      unmatched.push(selector);
+      continue;
+    }
+    for (const m of matches) picked.push({ selector: m.selector, markdown: m.markdown });
+  }
+
+  if (unmatched.length > 0) {
+    const available = flattenSections(doc).map((s) => s.selector);
+    if (doc.frontmatter) available.unshift(FRONTMATTER_SELECTOR);
+    throw new Error(
+      `MCD selector(s) matched no section: ${unmatched.join(', ')}. Available: ${available.join(', ') || '(none)'}`
+    );
+  }
+
+  // A slice nested inside another selected slice is already included in its ancestor's markdown.
+  const seen = new Set<string>();
+  return picked.filter((p) => {
+    const covered = picked.some((o) => p.selector.startsWith(o.selector + '/'));
+    if (covered || seen.has(p.selector)) return false;
+    seen.add(p.selector);
+    return true;
+  });
+}
@@ -1,6 +1,8 @@
 import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
 import * as path from 'node:path';
-import { createHash } from 'node:crypto';
+import { assertExpectedSha256, sha256, withFileLock } from './concurrency.js';
+import { unifiedDiff } from './textDiff.js';
+import { parseMcd, type ParsedMcd } from './mcdSections.js';
 
 export type McdMeta = {
   project_slug: string;
@@ -8,12 +10,25 @@ export type McdMeta = {
   updated_at: string;
 };
 
-function sha256(text: string): string {
-  return createHash('sha256').update(text, 'utf8').digest('hex');
-}
+/**
+ * One entry in an MCD's version history. Snapshots are content-addressed by sha256.
+ */
+export type McdVersion = {
+  sha256: string;
+  saved_at: string;
+  bytes: number;
+  restored_from?: string;
+};
 
 export class McdStore {
-  constructor(private readonly baseDir = path.join(process.cwd(), 'mcd')) {}
+  /**
+   * `historyBaseDir` holds the version snapshots. It defaults to `.warpos/mcd-history` next to
+   * `baseDir`, so history stays out of the authored `mcd/` directory (and out of git).
+   */
+  constructor(
+    private readonly baseDir = path.join(process.cwd(), 'mcd'),
+    private readonly historyBaseDir = path.join(path.dirname(baseDir), '.warpos', 'mcd-history')
+  ) {}
 
   private mcdPath(projectSlug: string): string {
     return path.join(this.baseDir, `${projectSlug}.md`);
@@ -23,6 +38,66 @@ export class McdStore {
     return path.join(this.baseDir, `${projectSlug}.meta.json`);
   }
 
+  private historyDir(projectSlug: string): string {
+    return path.join(this.historyBaseDir, projectSlug);
+  }
+
+  private snapshotPath(projectSlug: string, hash: string): string {
+    return path.join(this.historyDir(projectSlug), `${hash}.md`);
+  }
+
+  private historyIndexPath(projectSlug: string): string {
+    return path.join(this.historyDir(projectSlug), 'index.json');
+  }
+
+  /**
+   * The saved versions, oldest first. A project without history has none; an index that cannot be
+   * read or parsed is an error, so a later save never overwrites it.
+   */
+  private async readHistoryIndex(projectSlug: string): Promise<McdVersion[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.historyIndexPath(projectSlug), 'utf8');
+    } catch (err: unknown) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') return [];
+      throw err;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw) as unknown;
+    } catch (err) {
+      throw new Error(`MCD history index for '${projectSlug}' is not valid JSON: ${(err as Error).message}`);
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error(`MCD history index for '${projectSlug}' is not a JSON array`);
+    }
+    return parsed as McdVersion[];
+  }
+
+  /**
+   * Store a content-addressed snapshot and append it to the history index.
+   * Writing the same content twice keeps one snapshot file but records both saves.
+   */
+  private async snapshot(
+    projectSlug: string,
+    markdown: string,
+    savedAt: string,
+    restoredFrom?: string
+  ): Promise<McdVersion> {
+    const hash = sha256(markdown);
+    await mkdir(this.historyDir(projectSlug), { recursive: true });
+    await writeFile(this.snapshotPath(projectSlug, hash), markdown, 'utf8');
+
+    const version: McdVersion = { sha256: hash, saved_at: savedAt, bytes: Buffer.byteLength(markdown) };
+    if (restoredFrom) version.restored_from = restoredFrom;
+
+    const index = await this.readHistoryIndex(projectSlug);
+    index.push(version);
+    await writeFile(this.historyIndexPath(projectSlug), JSON.stringify(index, null, 2) + '\n', 'utf8');
+
+    return version;
+  }
+
   async listProjectSlugs(): Promise<string[]> {
     try {
       const s = await stat(this.baseDir);
@@ -43,11 +118,15 @@ export class McdStore {
     return slugs.sort((a, b) => a.localeCompare(b));
   }
 
+  /**
+   * The current MCD. `meta.sha256` always hashes the markdown as read, so it is the value to pass as
+   * `expectedSha256`, even when the file was edited outside put(); `updated_at` then falls back to
+   * the file's modification time.
+   */
   async get(projectSlug: string): Promise<{ markdown: string; meta: McdMeta }> {
     const markdown = await readFile(this.mcdPath(projectSlug), 'utf8');
     const computed = sha256(markdown);
 
-    // Try to load persisted meta; if missing or invalid, fall back to computed.
     let persisted: Partial<McdMeta> | undefined;
     try {
       const raw = await readFile(this.metaPath(projectSlug), 'utf8');
@@ -58,29 +137,153 @@ export class McdStore {
 
     const meta: McdMeta = {
       project_slug: projectSlug,
-      sha256: typeof persisted?.sha256 === 'string' ? persisted.sha256 : computed,
+      sha256: computed,
       updated_at:
-        typeof persisted?.updated_at === 'string'
+        persisted?.sha256 === computed && typeof persisted.updated_at === 'string'
           ? persisted.updated_at
-          : new Date().toISOString()
+          : (await stat(this.mcdPath(projectSlug))).mtime.toISOString()
     };
 
     return { markdown, meta };
   }
 
-  async put(projectSlug: string, markdown: string): Promise<McdMeta> {
+  /**
+   * Create or update an MCD. When `options.expectedSha256` is given, the write is rejected with a
+   * ConflictError unless the current document hashes to that value. The check and the write hold the
+   * document's lock, so of two writers sending the same hash only the first succeeds.
+   */
+  async put(
+    projectSlug: string,
+    markdown: string,
+    options: { expectedSha256?: string; restoredFrom?: string } = {}
+  ): Promise<McdMeta> {
     await mkdir(this.baseDir, { recursive: true });
 
-    await writeFile(this.mcdPath(projectSlug), markdown, 'utf8');
+    return withFileLock(this.mcdPath(projectSlug), async () => {
+      let previous: { markdown: string; meta: McdMeta } | undefined;
+      try {
+        previous = await this.get(projectSlug);
+      } catch (err: unknown) {
+        if (!(err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT')) throw err;
+      }
 
-    const meta: McdMeta = {
-      project_slug: projectSlug,
-      sha256: sha256(markdown),
-      updated_at: new Date().toISOString()
+      assertExpectedSha256(
+        `MCD '${projectSlug}'`,
+        options.expectedSha256,
+        previous ? sha256(previous.markdown) : null
+      );
+
+      // Preserve the document being replaced if history doesn't have it yet
+      // (MCDs created before history existed, or edited outside mcd_put).
+      if (previous) {
+        const known = await this.readHistoryIndex(projectSlug);
+        if (!known.some((v) => v.sha256 === sha256(previous.markdown))) {
+          await this.snapshot(projectSlug, previous.markdown, previous.meta.updated_at);
+        }
+      }
+
+      await writeFile(this.mcdPath(projectSlug), markdown, 'utf8');
+
+      const meta: McdMeta = {
+        project_slug: projectSlug,
+        sha256: sha256(markdown),
+        updated_at: new Date().toISOString()
+      };
+
+      await writeFile(this.metaPath(projectSlug), JSON.stringify(meta, null, 2) + '\n', 'utf8');
+      await this.snapshot(projectSlug, markdown, meta.updated_at, options.restoredFrom);
+
+      return meta;
+    });
+  }
+
+  /**
+   * Version history for a project, newest first.
+   */
+  async listHistory(projectSlug: string): Promise<McdVersion[]> {
+    const index = await this.readHistoryIndex(projectSlug);
+    return index.reverse();
+  }
+
+  /**
+   * Resolve a full hash or unique prefix (at least 7 hex chars) to a known snapshot hash.
+   */
+  async resolveVersionHash(projectSlug: string, hashOrPrefix: string): Promise<string> {
+    const wanted = hashOrPrefix.toLowerCase();
+    const hashes = new Set((await this.readHistoryIndex(projectSlug)).map((v) => v.sha256));
+    const matches = [...hashes].filter((h) => h.startsWith(wanted));
+
+    if (matches.length === 0) {
+      throw new Error(`MCD version '${hashOrPrefix}' not found for project '${projectSlug}'`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`MCD version prefix '${hashOrPrefix}' is ambiguous for project '${projectSlug}'`);
+    }
+    return matches[0];
+  }
+
+  /**
+   * Get the markdown of a specific historical version.
+   */
+  async getVersion(
+    projectSlug: string,
+    hashOrPrefix: string
+  ): Promise<{ markdown: string; version: McdVersion }> {
+    const hash = await this.resolveVersionHash(projectSlug, hashOrPrefix);
+    const markdown = await readFile(this.snapshotPath(projectSlug, hash), 'utf8');
+    const history = await this.listHistory(projectSlug);
+    // Report the most recent save of this content.
+    const version = history.find((v) => v.sha256 === hash)!;
+    return { markdown, version };
+  }
+
+  /**
+   * Unified diff between two versions. `toHash` defaults to the current document.
+   */
+  async diff(
+    projectSlug: string,
+    fromHash: string,
+    toHash?: string
+  ): Promise<{ from: string; to: string; diff: string }> {
+    const from = await this.getVersion(projectSlug, fromHash);
+    let toMarkdown: string;
+    let to: string;
+    if (toHash) {
+      const v = await this.getVersion(projectSlug, toHash);
+      toMarkdown = v.markdown;
+      to = v.version.sha256;
+    } else {
+      toMarkdown = (await this.get(projectSlug)).markdown;
+      to = sha256(toMarkdown);
+    }
+
+    return {
+      from: from.version.sha256,
+      to,
+      diff: unifiedDiff(from.markdown, toMarkdown, {
+        fromLabel: `${projectSlug}.md@${from.version.sha256.slice(0, 12)}`,
+        toLabel: `${projectSlug}.md@${to.slice(0, 12)}`
+      })
     };
+  }
 
-    await writeFile(this.metaPath(projectSlug), JSON.stringify(meta, null, 2) + '\n', 'utf8');
+  /**
+   * Make a historical version the current document again. Recorded as a new history entry.
+   */
+  async restore(
+    projectSlug: string,
+    hashOrPrefix: string,
+    expectedSha256?: string
+  ): Promise<McdMeta> {
+    const { markdown, version } = await this.getVersion(projectSlug, hashOrPrefix);
+    return this.put(projectSlug, markdown, { expectedSha256, restoredFrom: version.sha256 });
+  }
 
-    return meta;
+  /**
+   * Parse the current MCD into frontmatter and heading sections.
+   */
+  async sections(projectSlug: string): Promise<ParsedMcd> {
+    const { markdown } = await this.get(projectSlug);
+    return parseMcd(markdown, `MCD '${projectSlug}'`);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,199 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import type { ChatMessage } from './llmProvider.js';
+
+/**
+ * A request received by the mock server, as parsed from the JSON body.
+ */
+export type MockChatRequest = {
+  method: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: {
+    model?: string;
+    messages?: ChatMessage[];
+    temperature?: number;
+    stream?: boolean;
+    [k: string]: unknown;
+  };
+};
+
+/**
+ * What the mock server answers with. `content` builds a normal chat completion (streamed as
+ * SSE when the request asked for `stream: true`); `status` + `body` send anything else, and
+ * `rawBody` sends the bytes as-is (e.g. malformed JSON).
+ */
+export type MockReply = {
+  content?: string;
+  status?: number;
+  body?: unknown;
+  rawBody?: string;
+  headers?: Record<string, string>;
+  /** Wait before answering, to exercise client timeouts. */
+  delayMs?: number;
+};
+
+export type MockResponder = MockReply | ((request: MockChatRequest) => MockReply | Promise<MockReply>);
+
+/**
+ * The body of an OpenAI-style chat completion with a single assistant message.
+ */
+export function chatCompletion(content: string, model = 'mock-model'): Record<string, unknown> {
+  return {
+    id: 'chatcmpl-mock',
+    object: 'chat.completion',
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }]
+  };
+}
+
+/**
+ * Local stand-in for the z.ai chat completions API. Point `ZAI_BASE_URL` at `url` to run
+ * `zaiChat` (and the MCP tools built on it) without a key or network access.
+ *
+ * Replies queued with `enqueue` are served first, in order; after that the fallback answers
+ * (by default it echoes the last user message). `failNext` injects errors, and every request is
+ * captured in `requests`.
+ */
+export class MockZaiServer {
+  readonly requests: MockChatRequest[] = [];
+  private readonly queue: MockResponder[] = [];
+  private fallback: MockResponder;
+  private server?: Server;
+  private baseUrl?: string;
+
+  constructor(fallback?: MockResponder) {
+    this.fallback =
+      fallback ??
+      ((request) => {
+        const lastUser = [...(request.body.messages ?? [])].reverse().find((m) => m.role === 'user');
+        return { content: `mock reply: ${lastUser?.content ?? ''}` };
+      });
+  }
+
+  /** Base URL including `/v1`, suitable for ZAI_BASE_URL. Only valid after start(). */
+  get url(): string {
+    if (!this.baseUrl) throw new Error('MockZaiServer is not started');
+    return this.baseUrl;
+  }
+
+  async start(port = 0): Promise<string> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((err: unknown) => {
+        res.writeHead(500, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    return this.baseUrl;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    this.baseUrl = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /** Queue replies for the next requests, in order. */
+  enqueue(...replies: MockResponder[]): this {
+    this.queue.push(...replies);
+    return this;
+  }
+
+  /** Replace the reply used once the queue is empty. */
+  setFallback(responder: MockResponder): this {
+    this.fallback = responder;
+    return this;
+  }
+
+  /**
+   * Answer the next `times` requests with an error: 429 (with Retry-After), 500, or `malformed`
+   * (a 200 whose body is not JSON).
+   */
+  failNext(kind: 429 | 500 | 503 | 'malformed', times = 1, retryAfterSeconds = 0): this {
+    const reply: MockReply =
+      kind === 'malformed'
+        ? { status: 200, rawBody: '{"choices": [', headers: { 'content-type': 'application/json' } }
+        : kind === 429
+          ? { status: 429, body: { error: 'rate limited' }, headers: { 'retry-after': String(retryAfterSeconds) } }
+          : { status: kind, body: { error: 'mock server error' } };
+    for (let i = 0; i < times; i++) this.queue.push(reply);
+    return this;
+  }
+
+  /** Forget captured requests and queued replies. */
+  reset(): this {
+    this.requests.length = 0;
+    this.queue.length = 0;
+    return this;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString('utf8');
+
+    let body: MockChatRequest['body'] = {};
+    try {
+      body = text ? (JSON.parse(text) as MockChatRequest['body']) : {};
+    } catch {
+      res.writeHead(400, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: 'request body is not JSON' }));
+      return;
+    }
+
+    const request: MockChatRequest = {
+      method: req.method ?? 'GET',
+      path: req.url ?? '/',
+      headers: req.headers,
+      body
+    };
+    this.requests.push(request);
+
+    if (request.method !== 'POST' || !request.path.endsWith('/chat/completions')) {
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: `no route for ${request.method} ${request.path}` }));
+      return;
+    }
+
+    const responder = this.queue.shift() ?? this.fallback;
+    const reply = typeof responder === 'function' ? await responder(request) : responder;
+    if (reply.delayMs) await new Promise((r) => setTimeout(r, reply.delayMs));
+    if (res.destroyed) return; // The client gave up (timeout or cancellation).
+
+    if (reply.content !== undefined && reply.status === undefined) {
+      if (body.stream) {
+        this.writeStream(res, reply.content, body.model, reply.headers);
+      } else {
+        res.writeHead(200, { 'content-type': 'application/json', ...reply.headers });
+        res.end(JSON.stringify(chatCompletion(reply.content, body.model)));
+      }
+      return;
+    }
+
+    res.writeHead(reply.status ?? 200, { 'content-type': 'application/json', ...reply.headers });
+    res.end(reply.rawBody ?? JSON.stringify(reply.body ?? null));
+  }
+
+  /** Send `content` as SSE deltas of a few words each, then `[DONE]`. */
+  private writeStream(res: ServerResponse, content: string, model: string | undefined, headers?: Record<string, string>) {
+    res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache', ...headers });
+    const pieces = content.match(/\S+\s*|\s+/g) ?? [];
+    for (const piece of pieces) {
+      const event = { model: model ?? 'mock-model', choices: [{ index: 0, delta: { content: piece } }] };
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+    const last = { model: model ?? 'mock-model', choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] };
+    res.write(`data: ${JSON.stringify(last)}\n\n`);
+    res.end('data: [DONE]\n\n');
+  }
+}
@@ -0,0 +1,286 @@
+import {
+  CircuitBreaker,
+  ConcurrencyLimiter,
+  ModelRequestError,
+  circuitBreakerFromEnv,
+  classifyStatus,
+  concurrencyLimiterFromEnv,
+  parseRetryAfter,
+  retryPolicyFromEnv,
+  withRetry
+} from './resilience.js';
+import type { ChatMessage, ChatOptions, ChatResponse } from './llmProvider.js';
+
+/**
+ * Connection settings for an OpenAI-compatible chat completions API.
+ */
+export type OpenAiCompatibleConfig = {
+  /** Backend id; each backend gets its own concurrency limiter and circuit breaker. */
+  id: string;
+  /** Name used in error messages, e.g. `z.ai`. */
+  label: string;
+  baseUrl: string;
+  /** Sent as a bearer token when set; local servers usually need none. */
+  apiKey?: string;
+  defaultModel: string;
+  /** Prefix of the retry/timeout/concurrency environment variables, e.g. `ZAI` for ZAI_MAX_RETRIES. */
+  envPrefix: string;
+};
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+function defaultTimeoutMs(envPrefix: string): number {
+  const v = Number(process.env[`${envPrefix}_TIMEOUT_MS`]);
+  return Number.isFinite(v) && v > 0 ? v : DEFAULT_TIMEOUT_MS;
+}
+
+/**
+ * Read an OpenAI-style SSE stream (`data: {...}` lines, terminated by `data: [DONE]`) and
+ * accumulate the `choices[0].delta.content` fragments. Returns a raw object in the
+ * non-streaming response shape so callers can treat both the same way.
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onDelta: ChatOptions['onDelta']
+): Promise<ChatResponse> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let model: unknown;
+  let finishReason: unknown = null;
+  let done = false;
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data:')) return; // Comments, event names and ids are not used.
+    const data = line.slice(5).trim();
+    if (data === '[DONE]') {
+      done = true;
+      return;
+    }
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      return;
+    }
+    model ??= event?.model;
+    const choice = event?.choices?.[0];
+    if (choice?.finish_reason) finishReason = choice.finish_reason;
+    const delta = choice?.delta?.content;
+    if (typeof delta === 'string' && delta.length > 0) {
+      text += delta;
+      onDelta?.(delta, text);
+    }
+  };
+
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while (!done && (newline = buffer.indexOf('\n')) >= 0) {
+      handleLine(buffer.slice(0, newline).replace(/\r$/, ''));
+      buffer = buffer.slice(newline + 1);
+    }
+    if (done) break;
+  }
+  if (!done && buffer.length > 0) handleLine(buffer + decoder.decode());
+
+  return {
+    text,
+    raw: {
+      model,
+      choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: finishReason }],
+      streamed: true
+    }
+  };
+}
+
+/**
+ * Send one request. Failures are thrown as ModelRequestError so withRetry can decide whether to retry.
+ */
+async function requestOnce(
+  label: string,
+  url: string,
+  init: { headers: Record<string, string>; body: string },
+  options: ChatOptions,
+  timeoutMs: number
+): Promise<ChatResponse> {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+  // Errors surface from fetch() or from reading the body; work out which kind they are.
+  const classify = (err: unknown): unknown => {
+    if (err instanceof ModelRequestError) return err;
+    if (options.signal?.aborted) return new ModelRequestError(`${label} request cancelled`, { classification: 'cancelled' });
+    if (timeout.aborted) {
+      return new ModelRequestError(`${label} request timed out after ${timeoutMs}ms`, { classification: 'timeout' });
+    }
+    const detail = err instanceof Error ? (err.cause instanceof Error ? err.cause.message : err.message) : String(err);
+    return new ModelRequestError(`${label} request failed: ${detail}`, { classification: 'network' });
+  };
+
+  try {
+    const res = await fetch(url, { method: 'POST', ...init, signal });
+
+    const contentType = res.headers.get('content-type') ?? '';
+    if (res.ok && options.stream && res.body && contentType.includes('text/event-stream')) {
+      return await readEventStream(res.body, options.onDelta);
+    }
+
+    const bodyText = await res.text();
+    let raw: unknown = null;
+    let malformed = false;
+    try {
+      raw = JSON.parse(bodyText);
+    } catch {
+      malformed = true;
+    }
+
+    if (!res.ok) {
+      const msg = malformed ? bodyText.slice(0, 500) : typeof raw === 'string' ? raw : JSON.stringify(raw);
+      throw new ModelRequestError(`${label} request failed (${res.status}): ${msg}`, {
+        classification: classifyStatus(res.status),
+        status: res.status,
+        retryAfterMs: parseRetryAfter(res.headers.get('retry-after'))
+      });
+    }
+    if (malformed) {
+      throw new ModelRequestError(`${label} returned malformed JSON (${res.status}): ${bodyText.slice(0, 200)}`, {
+        classification: 'invalid_response',
+        status: res.status
+      });
+    }
+
+    // Attempt to read a commonly-used response shape.
+    const text =
+      (raw && (raw as any).choices && (raw as any).choices[0]?.message?.content) ||
+      (raw && (raw as any).output_text) ||
+      JSON.stringify(raw);
+
+    // A server that ignored `stream: true` still answered; report it as a single delta.
+    if (options.stream) options.onDelta?.(text, text);
+
+    return { text, raw };
+  } catch (err: unknown) {
+    throw classify(err);
+  }
+}
+
+const backends = new Map<string, { limiter: ConcurrencyLimiter; breaker: CircuitBreaker }>();
+
+function backendState(config: OpenAiCompatibleConfig) {
+  let state = backends.get(config.id);
+  if (!state) {
+    state = {
+      limiter: concurrencyLimiterFromEnv(config.envPrefix),
+      breaker: circuitBreakerFromEnv(config.envPrefix)
+    };
+    backends.set(config.id, state);
+  }
+  return state;
+}
+
+/**
+ * Forget the concurrency limiter and circuit breaker of one backend (or all of them) so the next
+ * call rebuilds them from the environment. Intended for tests.
+ */
+export function resetBackendState(id?: string): void {
+  if (id === undefined) backends.clear();
+  else backends.delete(id);
+}
+
+/**
+ * Call an OpenAI-compatible `/chat/completions` endpoint. Transient failures (429, 408, 5xx,
+ * network errors and timeouts) are retried with exponential backoff and jitter, honouring
+ * Retry-After. At most `<envPrefix>_MAX_CONCURRENCY` calls per backend are in flight, and a
+ * circuit breaker fails calls fast after repeated failures. Errors are ModelRequestError,
+ * carrying the attempt count and classification.
+ */
+export async function openAiCompatibleChat(
+  config: OpenAiCompatibleConfig,
+  messages: ChatMessage[],
+  options: ChatOptions = {}
+): Promise<ChatResponse> {
+  const model = options.model ?? config.defaultModel;
+  const url = `${config.baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+  const body = {
+    model,
+    messages,
+    temperature: options.temperature ?? 0.2,
+    ...(options.stream ? { stream: true } : {}),
+    ...(options.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {})
+  };
+  const init = {
+    headers: {
+      'content-type': 'application/json',
+      ...(config.apiKey ? { authorization: `Bearer ${config.apiKey}` } : {}),
+      ...(options.stream ? { accept: 'text/event-stream' } : {})
+    },
+    body: JSON.stringify(body)
+  };
+  const timeoutMs = options.timeoutMs ?? defaultTimeoutMs(config.envPrefix);
+  const { limiter, breaker: circuit } = backendState(config);
+
+  const waitMs = circuit.acquire();
+  if (waitMs > 0) {
+    throw new ModelRequestError(`${config.label} circuit breaker is open; next attempt allowed in ${waitMs}ms`, {
+      classification: 'circuit_open',
+      attempts: 0
+    });
+  }
+
+  // Once part of a stream has been handed to the caller, a retry would repeat it.
+  let streamed = false;
+  const attemptOptions: ChatOptions = {
+    ...options,
+    onDelta: options.onDelta
+      ? (delta, text) => {
+          streamed = true;
+          options.onDelta!(delta, text);
+        }
+      : undefined
+  };
+
+  try {
+    const out = await limiter.run(
+      () =>
+        withRetry(
+          async () => {
+            try {
+              return await requestOnce(config.label, url, init, attemptOptions, timeoutMs);
+            } catch (err: unknown) {
+              if (streamed && err instanceof ModelRequestError && err.retryable) {
+                throw new ModelRequestError(`${err.message} (after partial stream)`, {
+                  classification: err.classification,
+                  status: err.status,
+                  retryable: false
+                });
+              }
+              throw err;
+            }
+          },
+          { policy: retryPolicyFromEnv(config.envPrefix), signal: options.signal }
+        ),
+      options.signal
+    );
+    circuit.recordSuccess();
+    return out;
+  } catch (err: unknown) {
+    if (!(err instanceof ModelRequestError) && !options.signal?.aborted) {
+      circuit.release();
+      throw err;
+    }
+    // Cancelled while queued for a concurrency slot.
+    const failure =
+      err instanceof ModelRequestError
+        ? err
+        : new ModelRequestError(`${config.label} request cancelled`, { classification: 'cancelled', attempts: 0 });
+
+    // The backend answered a client error, so it is up; cancellations say nothing about it.
+    if (failure.classification === 'client_error') circuit.recordSuccess();
+    else if (failure.classification === 'cancelled') circuit.release();
+    else circuit.recordFailure();
+
+    throw failure;
+  }
+}
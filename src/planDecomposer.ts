@@ -0,0 +1,358 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import YAML from 'yaml';
+
+import { TaskTemplateStore, templateDeprecationNotice, type TaskTemplate } from './templateStore.js';
+import { TaskInstanceStore, type TaskInstance } from './instanceStore.js';
+import { DomainProfileStore, profileDeprecationWarnings } from './profileStore.js';
+import { McdStore } from './mcdStore.js';
+import { withFileLock } from './concurrency.js';
+import { validateSchema } from './schema.js';
+import { chatForJson } from './structuredOutput.js';
+import type { ChatMessage, ChatOptions, ChatResponse } from './llmProvider.js';
+import { createDefaultProviderRegistry } from './providers.js';
+
+/**
+ * One task instance the model proposes; becomes a TaskInstance when the proposal is applied.
+ */
+export type ProposedInstance = {
+  template_id: string;
+  template_version: number;
+  inputs: Record<string, unknown>;
+  domain_profiles: string[];
+  /** Why the model chose this template, for the reviewer. */
+  rationale?: string;
+};
+
+export type PlanProposalStatus = 'pending' | 'applied';
+
+/**
+ * A goal decomposed into task instances, stored at `.warpos/proposals/<proposal_id>.yaml` for
+ * review before `apply` creates the instances.
+ */
+export type PlanProposal = {
+  proposal_id: string;
+  project_slug: string;
+  goal: string;
+  /** MCD the proposal was made against; applied instances are locked to it. */
+  mcd_hash: string;
+  status: PlanProposalStatus;
+  created_at: string;
+  model_attempts: number;
+  instances: ProposedInstance[];
+  applied_at?: string;
+  /** Instance ids created by apply, in the order of the applied proposal entries. */
+  instance_ids?: string[];
+};
+
+export type DecomposeOptions = {
+  model?: string;
+  temperature?: number;
+  /** Re-prompts after a reply that fails validation. Defaults to WARPOS_JSON_MAX_REPAIRS, or 2. */
+  maxRepairs?: number;
+  signal?: AbortSignal;
+};
+
+export type ApplyOptions = {
+  /** Apply only these proposal entries (0-based). Defaults to all of them. */
+  indexes?: number[];
+};
+
+export type PlanDecomposerOptions = {
+  mcdStore?: McdStore;
+  chat?: (messages: ChatMessage[], options?: ChatOptions) => Promise<ChatResponse>;
+  model?: string;
+  temperature?: number;
+};
+
+// JSON Schema for the model reply. Template-specific checks (inputs_schema, known profiles)
+// happen after this, and their errors are sent back to the model as well.
+const PROPOSAL_REPLY_SCHEMA = {
+  type: 'object',
+  required: ['instances'],
+  additionalProperties: false,
+  properties: {
+    instances: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['template_id', 'template_version', 'inputs'],
+        additionalProperties: false,
+        properties: {
+          template_id: { type: 'string', minLength: 1 },
+          template_version: { type: 'integer', minimum: 1 },
+          inputs: { type: 'object' },
+          domain_profiles: { type: 'array', items: { type: 'string' } },
+          rationale: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+const DECOMPOSE_INSTRUCTIONS = [
+  'You decompose a goal into atomic task instances for a deterministic execution workflow.',
+  'Use only the task templates listed below, at the listed version. Each instance needs `inputs` that satisfy the',
+  "template's inputs_schema. Set `domain_profiles` only to ids from the list of available profiles; omit it to",
+  "use the template's defaults. Order the instances in the order they should run, and give each a short `rationale`."
+].join('\n');
+
+function isEnoent(err: unknown): boolean {
+  return Boolean(err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT');
+}
+
+function assertSafeProposalId(id: string): void {
+  // Proposal ids are UUIDs and are used as filenames under the proposals directory.
+  if (!/^[A-Za-z0-9-]+$/.test(id)) {
+    throw new Error('Invalid proposal_id');
+  }
+}
+
+/**
+ * PlanDecomposer turns a free-form goal into reviewable task instances:
+ * - decompose(): ask the model to pick active templates and inputs; store the validated proposal
+ * - apply(): create the proposed instances in one batch after review
+ */
+export class PlanDecomposer {
+  private readonly templateStore: TaskTemplateStore;
+  private readonly instanceStore: TaskInstanceStore;
+  private readonly profileStore: DomainProfileStore;
+  private readonly proposalsDir: string;
+  private readonly mcdStore: McdStore;
+  private readonly chat: NonNullable<PlanDecomposerOptions['chat']>;
+  private readonly model?: string;
+  private readonly temperature: number;
+
+  constructor(
+    templateStore: TaskTemplateStore,
+    instanceStore: TaskInstanceStore,
+    profileStore: DomainProfileStore,
+    proposalsDir: string,
+    options: PlanDecomposerOptions = {}
+  ) {
+    this.templateStore = templateStore;
+    this.instanceStore = instanceStore;
+    this.profileStore = profileStore;
+    this.proposalsDir = proposalsDir;
+    this.mcdStore = options.mcdStore ?? new McdStore();
+    if (options.chat) {
+      this.chat = options.chat;
+    } else {
+      const providers = createDefaultProviderRegistry();
+      this.chat = (messages, chatOptions) => providers.chat(messages, chatOptions);
+    }
+    this.model = options.model;
+    this.temperature = options.temperature ?? 0.2;
+  }
+
+  /**
+   * Latest version of every template that is neither inactive nor deprecated.
+   */
+  async activeTemplates(): Promise<TaskTemplate[]> {
+    const out: TaskTemplate[] = [];
+    for (const id of await this.templateStore.listTemplateIds()) {
+      const template = await this.templateStore.loadTemplate(id);
+      if (template.active === false || template.deprecated) continue;
+      out.push(template);
+    }
+    return out;
+  }
+
+  /**
+   * Ask the model to decompose `goal` into task instances for `projectSlug`. The reply is
+   * validated against the template catalog (template ids and versions, each template's
+   * inputs_schema, known domain profiles) and re-prompted with the errors until it conforms.
+   * Nothing is created yet: the proposal is stored for review.
+   */
+  async decompose(goal: string, projectSlug: string, options: DecomposeOptions = {}): Promise<PlanProposal> {
+    let mcd: Awaited<ReturnType<McdStore['get']>>;
+    try {
+      mcd = await this.mcdStore.get(projectSlug);
+    } catch (err: unknown) {
+      if (isEnoent(err)) {
+        throw new Error(`Project '${projectSlug}' has no MCD; create one with mcd_put before decomposing a goal`);
+      }
+      throw err;
+    }
+
+    const templates = await this.activeTemplates();
+    if (templates.length === 0) {
+      throw new Error('No active task templates to decompose the goal into');
+    }
+    const byId = new Map(templates.map((t) => [t.id, t]));
+    const profileIds = await this.profileStore.listProfileIds();
+    const knownProfiles = new Set(profileIds);
+
+    const catalog = templates.map((t) => ({
+      id: t.id,
+      version: t.version,
+      description: t.description,
+      inputs_schema: t.inputs_schema,
+      domain_profiles_default: t.domain_profiles_default ?? [],
+      steps: t.steps.map((s) => s.id)
+    }));
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: [
+          DECOMPOSE_INSTRUCTIONS,
+          `Task templates:\n${JSON.stringify(catalog, null, 2)}`,
+          `Available domain profiles: ${profileIds.length > 0 ? profileIds.join(', ') : '(none)'}`
+        ].join('\n\n')
+      },
+      {
+        role: 'user',
+        content: [`Project: ${projectSlug}`, '', 'Main Context Document:', mcd.markdown, '', 'Goal:', goal].join('\n')
+      }
+    ];
+
+    const check = (value: unknown): string[] => {
+      const errors: string[] = [];
+      ((value as { instances: ProposedInstance[] }).instances ?? []).forEach((proposed, i) => {
+        const at = `/instances/${i}`;
+        const template = byId.get(proposed.template_id);
+        if (!template) {
+          errors.push(`${at}/template_id '${proposed.template_id}' is not an active task template`);
+          return;
+        }
+        if (proposed.template_version !== template.version) {
+          errors.push(`${at}/template_version must be ${template.version} for ${template.id}`);
+        }
+        const inputs = validateSchema(template.inputs_schema, proposed.inputs);
+        for (const e of inputs.errors) errors.push(`${at}/inputs${e.startsWith('/ ') ? e.slice(1) : e}`);
+        for (const id of proposed.domain_profiles ?? []) {
+          if (!knownProfiles.has(id)) errors.push(`${at}/domain_profiles '${id}' is not an available domain profile`);
+        }
+      });
+      return errors;
+    };
+
+    const out = await chatForJson(this.chat, messages, PROPOSAL_REPLY_SCHEMA, {
+      model: options.model ?? this.model,
+      temperature: options.temperature ?? this.temperature,
+      maxRepairs: options.maxRepairs,
+      signal: options.signal,
+      check
+    });
+
+    const reply = out.value as { instances: ProposedInstance[] };
+    const proposal: PlanProposal = {
+      proposal_id: randomUUID(),
+      project_slug: projectSlug,
+      goal,
+      mcd_hash: mcd.meta.sha256,
+      status: 'pending',
+      created_at: new Date().toISOString(),
+      model_attempts: out.attempts,
+      instances: reply.instances.map((p) => ({
+        template_id: p.template_id,
+        template_version: p.template_version,
+        inputs: p.inputs,
+        domain_profiles: p.domain_profiles ?? [...(byId.get(p.template_id)!.domain_profiles_default ?? [])],
+        ...(p.rationale ? { rationale: p.rationale } : {})
+      }))
+    };
+
+    await mkdir(this.proposalsDir, { recursive: true });
+    await writeFile(this.proposalPath(proposal.proposal_id), YAML.stringify(proposal), 'utf8');
+    return proposal;
+  }
+
+  private proposalPath(proposalId: string): string {
+    return path.join(this.proposalsDir, `${proposalId}.yaml`);
+  }
+
+  async getProposal(proposalId: string): Promise<PlanProposal> {
+    assertSafeProposalId(proposalId);
+    let raw: string;
+    try {
+      raw = await readFile(this.proposalPath(proposalId), 'utf8');
+    } catch (err: unknown) {
+      if (isEnoent(err)) throw new Error(`Plan proposal '${proposalId}' not found`);
+      throw err;
+    }
+    return YAML.parse(raw) as PlanProposal;
+  }
+
+  /**
+   * Create the proposed instances (or the selected entries) in one batch. Every entry is
+   * re-validated against its template first, so a template that changed, or a template or domain
+   * profile that was deprecated since the proposal was made, fails the whole batch before any
+   * instance is written. The proposal is then marked `applied` under its file lock, so of two
+   * concurrent applies only one creates instances.
+   */
+  async apply(
+    proposalId: string,
+    options: ApplyOptions = {}
+  ): Promise<{ proposal: PlanProposal; instances: TaskInstance[] }> {
+    const proposal = await this.getProposal(proposalId);
+    if (proposal.status !== 'pending') {
+      throw new Error(`Cannot apply proposal with status: ${proposal.status}`);
+    }
+
+    const indexes = options.indexes ?? proposal.instances.map((_, i) => i);
+    if (indexes.length === 0) throw new Error('indexes must select at least one proposed instance');
+    for (const i of indexes) {
+      if (!Number.isInteger(i) || i < 0 || i >= proposal.instances.length) {
+        throw new Error(`Proposal ${proposalId} has no instance at index ${i}`);
+      }
+    }
+    if (new Set(indexes).size !== indexes.length) throw new Error('indexes must not repeat');
+
+    const selected = indexes.map((i) => proposal.instances[i]);
+    const problems: string[] = [];
+    for (const [n, proposed] of selected.entries()) {
+      try {
+        const template = await this.templateStore.loadTemplate(proposed.template_id, proposed.template_version);
+        const deprecation = templateDeprecationNotice(template);
+        if (deprecation) problems.push(`instance ${indexes[n]}: ${deprecation}`);
+        const { errors } = validateSchema(template.inputs_schema, proposed.inputs);
+        for (const e of errors) problems.push(`instance ${indexes[n]} (${template.id}@${template.version}): ${e}`);
+        for (const id of proposed.domain_profiles) {
+          const profile = await this.profileStore.loadProfile(id);
+          for (const w of profileDeprecationWarnings([profile])) problems.push(`instance ${indexes[n]}: ${w}`);
+        }
+      } catch (err: unknown) {
+        problems.push(`instance ${indexes[n]}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    if (problems.length > 0) {
+      throw new Error(`Proposal ${proposalId} can no longer be applied: ${problems.join('; ')}`);
+    }
+
+    const proposalPath = this.proposalPath(proposalId);
+    await withFileLock(proposalPath, async () => {
+      const current = await this.getProposal(proposalId);
+      if (current.status !== 'pending') {
+        throw new Error(`Cannot apply proposal with status: ${current.status}`);
+      }
+      proposal.status = 'applied';
+      proposal.applied_at = new Date().toISOString();
+      await writeFile(proposalPath, YAML.stringify(proposal), 'utf8');
+    });
+
+    const instances: TaskInstance[] = [];
+    try {
+      for (const proposed of selected) {
+        instances.push(
+          await this.instanceStore.generateInstance(
+            proposal.project_slug,
+            proposed.template_id,
+            proposed.template_version,
+            proposed.inputs,
+            proposal.mcd_hash,
+            proposed.domain_profiles
+          )
+        );
+      }
+    } finally {
+      // Record what was created even when a later entry fails, so no instance goes untracked.
+      proposal.instance_ids = instances.map((i) => i.instance_id);
+      await writeFile(proposalPath, YAML.stringify(proposal), 'utf8');
+    }
+
+    return { proposal, instances };
+  }
+}
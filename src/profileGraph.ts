@@ -0,0 +1,106 @@
+import { estimateTokens } from './promptAssembler.js';
+import type { ProfileRelationType, ResolvedProfile } from './profileStore.js';
+
+export type ProfileGraphNode = {
+  id: string;
+  /** False for relation targets that are not applied (e.g. a `conflicts_with` target). */
+  applied: boolean;
+  /** Observations that survive merging; 0 for profiles that are not applied. */
+  observations: number;
+  /** Estimated tokens of the profile's section of the compiled framework. */
+  tokens: number;
+};
+
+export type ProfileGraphEdge = {
+  from: string;
+  to: string;
+  type: ProfileRelationType;
+};
+
+export type ProfileGraph = {
+  nodes: ProfileGraphNode[];
+  edges: ProfileGraphEdge[];
+};
+
+/**
+ * The relation graph of resolved profiles (base → derived): one node per applied profile, plus
+ * nodes for relation targets that are not applied, and one edge per relation.
+ * `compileProfile` renders one profile's framework section, for the token estimate.
+ */
+export function buildProfileGraph(
+  resolved: ResolvedProfile[],
+  compileProfile: (profile: ResolvedProfile) => string
+): ProfileGraph {
+  const nodes: ProfileGraphNode[] = resolved.map((p) => ({
+    id: p.id,
+    applied: true,
+    observations: p.groups.reduce((n, g) => n + g.observations.length, 0),
+    tokens: estimateTokens(compileProfile(p))
+  }));
+  const edges: ProfileGraphEdge[] = [];
+
+  for (const p of resolved) {
+    for (const r of Array.isArray(p.profile.relations) ? p.profile.relations : []) {
+      if (!r || typeof r.target !== 'string') continue;
+      edges.push({ from: p.id, to: r.target, type: r.type });
+      if (!nodes.some((n) => n.id === r.target)) {
+        nodes.push({ id: r.target, applied: false, observations: 0, tokens: 0 });
+      }
+    }
+  }
+
+  return { nodes, edges };
+}
+
+function dotEscape(text: string): string {
+  return text.replaceAll('\\', '\\\\').replaceAll('"', '\\"');
+}
+
+function dotString(text: string): string {
+  return `"${dotEscape(text)}"`;
+}
+
+/**
+ * Graphviz DOT for a profile graph. Edges point from a profile to its relation target; `inherits`
+ * edges are unlabelled, other relations are labelled with their type.
+ */
+export function profileGraphToDot(graph: ProfileGraph): string {
+  const lines = ['digraph profiles {', '  rankdir=BT;', '  node [shape=box];'];
+  for (const n of graph.nodes) {
+    // `\n` is DOT's line break, so it is added after escaping the id.
+    const label = n.applied
+      ? `${dotEscape(n.id)}\\n${n.observations} observations, ~${n.tokens} tokens`
+      : dotEscape(n.id);
+    lines.push(`  ${dotString(n.id)} [label="${label}"${n.applied ? '' : ', style=dashed'}];`);
+  }
+  for (const e of graph.edges) {
+    const attrs =
+      e.type === 'inherits'
+        ? ''
+        : ` [label=${dotString(e.type)}${e.type === 'conflicts_with' ? ', color=red, style=dashed' : ''}]`;
+    lines.push(`  ${dotString(e.from)} -> ${dotString(e.to)}${attrs};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Mermaid flowchart for a profile graph, with the same edges as profileGraphToDot.
+ */
+export function profileGraphToMermaid(graph: ProfileGraph): string {
+  // Profile ids contain `/`, which Mermaid does not allow in node ids.
+  const key = new Map(graph.nodes.map((n, i) => [n.id, `p${i}`]));
+  const lines = ['flowchart BT'];
+  for (const n of graph.nodes) {
+    const label = n.applied ? `${n.id}<br/>${n.observations} observations, ~${n.tokens} tokens` : n.id;
+    lines.push(`  ${key.get(n.id)}["${label.replaceAll('"', '#quot;')}"]`);
+  }
+  for (const e of graph.edges) {
+    const arrow = e.type === 'inherits' ? '-->' : e.type === 'conflicts_with' ? `-. ${e.type} .->` : `-->|${e.type}|`;
+    lines.push(`  ${key.get(e.from)} ${arrow} ${key.get(e.to)}`);
+  }
+  for (const n of graph.nodes) {
+    if (!n.applied) lines.push(`  style ${key.get(n.id)} stroke-dasharray: 5 5`);
+  }
+  return lines.join('\n');
+}
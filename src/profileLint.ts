@@ -0,0 +1,217 @@
+import { readFile } from 'node:fs/promises';
+import YAML from 'yaml';
+
+import {
+  DomainProfileStore,
+  collectObservationGroups,
+  domainProfileErrors,
+  mergeProfileGroups,
+  type DomainProfile,
+  type ResolvedProfile
+} from './profileStore.js';
+
+export type ProfileLintIssue = {
+  profile: string;
+  severity: 'error' | 'warning';
+  message: string;
+};
+
+export type ProfileLintReport = {
+  /** False when any issue is an error; warnings alone keep it true. */
+  ok: boolean;
+  profiles: string[];
+  errors: number;
+  warnings: number;
+  issues: ProfileLintIssue[];
+};
+
+// Top-level keys that are not observation groups.
+const RESERVED_KEYS = new Set([
+  'description',
+  'relations',
+  'model',
+  'observations',
+  'deprecated',
+  'deprecated_at',
+  'deprecated_reason',
+  'superseded_by'
+]);
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+/**
+ * Paths of groups with nothing in them: an empty `observations` list, or no observations and no
+ * nested groups. Groups with `merge: remove` are meant to be empty.
+ */
+function emptyGroups(node: Record<string, unknown>, currentPath: string[] = []): string[] {
+  const out: string[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (currentPath.length === 0 && RESERVED_KEYS.has(key)) continue;
+    if (!isRecord(value)) continue;
+    const groupPath = [...currentPath, key];
+    const observations = value.observations;
+    const children = Object.keys(value).filter((k) => k !== 'observations' && k !== 'merge');
+    const isEmpty = Array.isArray(observations) ? observations.length === 0 : children.length === 0;
+    if (isEmpty && value.merge !== 'remove') {
+      out.push(groupPath.join('.'));
+    }
+    out.push(...emptyGroups(Object.fromEntries(children.map((k) => [k, value[k]])), groupPath));
+  }
+  return out;
+}
+
+function inheritsTargets(profile: DomainProfile | undefined): string[] {
+  if (!profile || !Array.isArray(profile.relations)) return [];
+  return profile.relations.filter((r) => r && r.type === 'inherits').map((r) => r.target);
+}
+
+/**
+ * Lint Domain Profiles (all of them by default): schema errors, relations to profiles that do not
+ * exist, composes relations selecting groups the target does not have, profiles that conflict with
+ * one they inherit, relations to deprecated profiles, `superseded_by` pointers to missing profiles,
+ * inheritance cycles, empty groups, and observations repeated within a profile or already present in a
+ * profile it inherits from.
+ */
+export async function lintProfiles(store: DomainProfileStore, profileIds?: string[]): Promise<ProfileLintReport> {
+  const known = new Set(await store.listProfileIds({ includeDeprecated: true }));
+  const ids = profileIds ?? [...known];
+  const issues: ProfileLintIssue[] = [];
+  const error = (profile: string, message: string) => issues.push({ profile, severity: 'error', message });
+  const warning = (profile: string, message: string) => issues.push({ profile, severity: 'warning', message });
+
+  // Parsed documents; undefined when missing or unparseable. Loaded lazily so ancestors outside
+  // `ids` are read too.
+  const parsed = new Map<string, DomainProfile | undefined>();
+  const parseErrors = new Map<string, string>();
+  const load = async (id: string): Promise<DomainProfile | undefined> => {
+    if (parsed.has(id)) return parsed.get(id);
+    let doc: DomainProfile | undefined;
+    if (known.has(id)) {
+      try {
+        const value = YAML.parse(await readFile(store.profilePath(id), 'utf8')) as unknown;
+        if (isRecord(value)) doc = value as DomainProfile;
+        else parseErrors.set(id, 'does not parse as a YAML mapping');
+      } catch (err) {
+        parseErrors.set(id, `YAML does not parse: ${(err as Error).message}`);
+      }
+    }
+    parsed.set(id, doc);
+    return doc;
+  };
+
+  // Ancestors in DFS order, without following cycles or missing targets.
+  const ancestors = async (id: string): Promise<string[]> => {
+    const out: string[] = [];
+    const seen = new Set([id]);
+    const visit = async (current: string) => {
+      for (const target of inheritsTargets(await load(current))) {
+        if (seen.has(target) || !known.has(target)) continue;
+        seen.add(target);
+        await visit(target);
+        out.push(target);
+      }
+    };
+    await visit(id);
+    return out;
+  };
+
+  // Shortest inheritance path from `id` back to itself, if any.
+  const cycleFrom = async (id: string): Promise<string[] | undefined> => {
+    const queue: string[][] = [[id]];
+    const seen = new Set<string>();
+    while (queue.length > 0) {
+      const chain = queue.shift()!;
+      for (const target of inheritsTargets(await load(chain[chain.length - 1]))) {
+        if (target === id) return [...chain, id];
+        if (seen.has(target)) continue;
+        seen.add(target);
+        queue.push([...chain, target]);
+      }
+    }
+    return undefined;
+  };
+
+  for (const id of ids) {
+    if (!known.has(id)) {
+      error(id, 'profile not found');
+      continue;
+    }
+    const profile = await load(id);
+    if (!profile) {
+      error(id, parseErrors.get(id)!);
+      continue;
+    }
+
+    for (const e of domainProfileErrors(profile)) error(id, `schema: ${e}`);
+    if (typeof profile.description !== 'string') warning(id, 'has no description');
+
+    const ancestorIds = await ancestors(id);
+    for (const r of Array.isArray(profile.relations) ? profile.relations : []) {
+      if (!r || typeof r.target !== 'string') continue;
+      if (!known.has(r.target)) {
+        error(id, `relation ${r.type} -> ${r.target}: no such profile`);
+        continue;
+      }
+      if (r.type === 'composes' && Array.isArray(r.groups)) {
+        const target = await load(r.target);
+        const groups = target ? collectObservationGroups(target).map((g) => g.groupPath) : [];
+        for (const selector of r.groups) {
+          if (!groups.some((g) => g === selector || g.startsWith(`${selector}.`))) {
+            error(id, `relation composes -> ${r.target}: no group '${selector}'`);
+          }
+        }
+      }
+      if (r.type === 'conflicts_with' && ancestorIds.includes(r.target)) {
+        error(id, `relation conflicts_with -> ${r.target}: the profile inherits it`);
+      }
+      const related = r.type === 'conflicts_with' ? undefined : await load(r.target);
+      if (related?.deprecated === true) {
+        const replacement = related.superseded_by ? ` (use ${related.superseded_by})` : '';
+        warning(id, `relation ${r.type} -> ${r.target}: the target is deprecated${replacement}`);
+      }
+    }
+
+    if (typeof profile.superseded_by === 'string' && !known.has(profile.superseded_by)) {
+      error(id, `superseded_by ${profile.superseded_by}: no such profile`);
+    }
+
+    const cycle = await cycleFrom(id);
+    if (cycle) error(id, `inheritance cycle: ${cycle.join(' -> ')}`);
+
+    for (const group of emptyGroups(profile)) warning(id, `group ${group} has no observations`);
+
+    // Where each observation first appears in the inherited framework (after merging), then in
+    // this profile. Inherited observations this profile replaces or overrides do not count.
+    const chain: ResolvedProfile[] = [];
+    for (const ancestor of ancestorIds) {
+      const doc = await load(ancestor);
+      if (!doc) continue;
+      chain.push({ id: ancestor, filePath: store.profilePath(ancestor), profile: doc, groups: collectObservationGroups(doc) });
+    }
+    // The profile itself (without its groups) ties the ancestors into one chain that merges together.
+    chain.push({ id, filePath: store.profilePath(id), profile, groups: [] });
+    const inherited = mergeProfileGroups(chain).groups;
+    const own = collectObservationGroups(profile);
+    const firstSeen = new Map<string, string>();
+    for (const g of inherited) {
+      const mine = own.find((o) => o.groupPath === g.group);
+      if (mine?.merge === 'replace' || mine?.merge === 'remove') continue;
+      for (const o of g.observations) {
+        if (o.id !== undefined && mine?.observationIds?.includes(o.id)) continue;
+        if (!firstSeen.has(o.text)) firstSeen.set(o.text, `${o.profile} (${g.group})`);
+      }
+    }
+    for (const g of own) {
+      for (const o of g.observations) {
+        const where = firstSeen.get(o);
+        if (where) warning(id, `observation "${o}" in ${g.groupPath} duplicates ${where}`);
+        else firstSeen.set(o, `${id} (${g.groupPath})`);
+      }
+    }
+  }
+
+  const errors = issues.filter((i) => i.severity === 'error').length;
+  return { ok: errors === 0, profiles: ids, errors, warnings: issues.length - errors, issues };
+}
@@ -1,22 +1,87 @@
-import { readFile, readdir, stat } from 'node:fs/promises';
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
 import * as path from 'node:path';
 import YAML from 'yaml';
 
+import { assertExpectedSha256, sha256, withFileLock } from './concurrency.js';
+import { validateSchema } from './schema.js';
+
+/**
+ * `inherits` pulls in the target and its ancestors; `composes` pulls in only the target's own groups
+ * (or the `groups` listed); `requires` and `conflicts_with` check which profiles end up applied.
+ */
+export type ProfileRelationType = 'inherits' | 'composes' | 'requires' | 'conflicts_with';
+
 export type ProfileRelation = {
   target: string;
-  type: 'inherits';
+  type: ProfileRelationType;
+  /** composes only: group paths to include; a path also selects its nested groups. */
+  groups?: string[];
+  /** inherits only: higher priorities are merged later, so they win (default 0). */
+  priority?: number;
 };
 
 export type DomainProfile = {
   description?: string;
   relations?: ProfileRelation[];
-  // Other keys are permitted (context/methodology groups, etc.).
+  /** Default model for domain_agent_run. */
+  model?: string;
+  deprecated?: boolean;
+  deprecated_at?: string;
+  deprecated_reason?: string;
+  /** Profile to use instead of this deprecated one. */
+  superseded_by?: string;
+  // Every other key is an observation group (context/methodology groups, etc.).
   [k: string]: unknown;
 };
 
+/**
+ * How a group combines with the inherited group of the same groupPath: `append` (default) adds its
+ * observations after the inherited ones, `replace` drops the inherited ones first, and `remove`
+ * drops the inherited group and contributes nothing.
+ */
+export type GroupMerge = 'append' | 'replace' | 'remove';
+
 export type ObservationGroup = {
   groupPath: string;
   observations: string[];
+  /** Ids of the observations, parallel to `observations`; present when any observation has one. */
+  observationIds?: (string | undefined)[];
+  merge?: GroupMerge;
+  /** Ids of inherited observations this group removes (`{ id, remove: true }` entries). */
+  removes?: string[];
+};
+
+/**
+ * One observation of the merged framework and the profile it came from.
+ */
+export type EffectiveObservation = {
+  text: string;
+  profile: string;
+  id?: string;
+};
+
+export type EffectiveGroup = {
+  group: string;
+  observations: EffectiveObservation[];
+};
+
+/**
+ * An inherited observation a more derived profile replaced, removed or overrode by id.
+ */
+export type DroppedObservation = EffectiveObservation & {
+  group: string;
+  dropped_by: string;
+  reason: 'replaced' | 'removed' | 'overridden';
+};
+
+/**
+ * Profiles merged base → derived: the effective groups with provenance, what was dropped, and
+ * the profiles with only their surviving observations (what compileFrameworkPrompt renders).
+ */
+export type EffectiveFramework = {
+  profiles: ResolvedProfile[];
+  groups: EffectiveGroup[];
+  dropped: DroppedObservation[];
 };
 
 export type ResolvedProfile = {
@@ -26,27 +91,146 @@ export type ResolvedProfile = {
   groups: ObservationGroup[];
 };
 
+// JSON Schema for validating DomainProfile structure. Keys other than the reserved ones are
+// observation groups: objects with an optional `observations` list and nested groups.
+const DOMAIN_PROFILE_SCHEMA = {
+  type: 'object',
+  $defs: {
+    // A plain string, `{ id, text }` (overridable by id), or `{ id, remove: true }`.
+    observation: {
+      type: ['string', 'object'],
+      minLength: 1,
+      required: ['id'],
+      additionalProperties: false,
+      properties: {
+        id: { type: 'string', pattern: '^[A-Za-z0-9._-]+$' },
+        text: { type: 'string', minLength: 1 },
+        remove: { const: true }
+      },
+      if: { type: 'object' },
+      then: { oneOf: [{ required: ['text'] }, { required: ['remove'] }] }
+    },
+    group: {
+      type: 'object',
+      properties: {
+        observations: { type: 'array', items: { $ref: '#/$defs/observation' } },
+        merge: { enum: ['append', 'replace', 'remove'] }
+      },
+      additionalProperties: { $ref: '#/$defs/group' }
+    }
+  },
+  properties: {
+    description: { type: 'string', minLength: 1 },
+    relations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['target', 'type'],
+        additionalProperties: false,
+        properties: {
+          target: { type: 'string', minLength: 1 },
+          type: { enum: ['inherits', 'composes', 'requires', 'conflicts_with'] },
+          groups: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+          priority: { type: 'integer' }
+        }
+      }
+    },
+    model: { type: 'string', minLength: 1 },
+    observations: { type: 'array', items: { $ref: '#/$defs/observation' } },
+    deprecated: { type: 'boolean' },
+    deprecated_at: { type: 'string' },
+    deprecated_reason: { type: 'string' },
+    superseded_by: { type: 'string', minLength: 1 }
+  },
+  additionalProperties: { $ref: '#/$defs/group' }
+} as const;
+
 function isRecord(v: unknown): v is Record<string, unknown> {
   return typeof v === 'object' && v !== null && !Array.isArray(v);
 }
 
-function collectObservationGroups(
+/**
+ * Schema errors for a parsed profile document; empty when it is a valid DomainProfile.
+ */
+export function domainProfileErrors(value: unknown): string[] {
+  const errors = validateSchema(DOMAIN_PROFILE_SCHEMA, value).errors;
+  const relations = isRecord(value) && Array.isArray(value.relations) ? value.relations : [];
+  relations.forEach((r, i) => {
+    if (!isRecord(r)) return;
+    if (r.groups !== undefined && r.type !== 'composes') {
+      errors.push(`/relations/${i}/groups only applies to composes relations`);
+    }
+    if (r.priority !== undefined && r.type !== 'inherits') {
+      errors.push(`/relations/${i}/priority only applies to inherits relations`);
+    }
+  });
+  return errors;
+}
+
+function profileRelations(profile: DomainProfile): ProfileRelation[] {
+  const relations = Array.isArray(profile.relations) ? profile.relations : [];
+  return relations.filter((r) => r && typeof r.target === 'string');
+}
+
+/**
+ * Whether `groupPath` is selected by a composes `groups` entry: the group itself or one nested in it.
+ */
+function groupSelected(groupPath: string, selector: string): boolean {
+  return groupPath === selector || groupPath.startsWith(`${selector}.`);
+}
+
+function readGroup(groupPath: string, entries: unknown[], merge: GroupMerge | undefined): ObservationGroup | undefined {
+  const observations: string[] = [];
+  const ids: (string | undefined)[] = [];
+  const removes: string[] = [];
+  for (const entry of entries) {
+    if (typeof entry === 'string') {
+      observations.push(entry);
+      ids.push(undefined);
+    } else if (isRecord(entry) && typeof entry.id === 'string') {
+      if (entry.remove === true) {
+        removes.push(entry.id);
+      } else if (typeof entry.text === 'string') {
+        observations.push(entry.text);
+        ids.push(entry.id);
+      }
+    }
+  }
+  if (observations.length === 0 && removes.length === 0 && !merge) return undefined;
+
+  return {
+    groupPath,
+    observations,
+    ...(ids.some((id) => id !== undefined) ? { observationIds: ids } : {}),
+    ...(merge ? { merge } : {}),
+    ...(removes.length > 0 ? { removes } : {})
+  };
+}
+
+export function collectObservationGroups(
   node: unknown,
   currentPath: string[] = []
 ): ObservationGroup[] {
   const out: ObservationGroup[] = [];
   if (!isRecord(node)) return out;
 
+  const merge =
+    currentPath.length > 0 && ['append', 'replace', 'remove'].includes(node.merge as string)
+      ? (node.merge as GroupMerge)
+      : undefined;
+  if (merge && !Array.isArray(node.observations)) {
+    const group = readGroup(currentPath.join('.'), [], merge);
+    if (group) out.push(group);
+  }
+
   for (const [k, v] of Object.entries(node)) {
     const nextPath = [...currentPath, k];
 
     if (k === 'observations' && Array.isArray(v)) {
-      const obs = v.filter((x) => typeof x === 'string') as string[];
-      if (obs.length > 0) {
-        // groupPath is the path *to the containing object*, without trailing `.observations`.
-        const groupPath = currentPath.length > 0 ? currentPath.join('.') : 'observations';
-        out.push({ groupPath, observations: obs });
-      }
+      // groupPath is the path *to the containing object*, without trailing `.observations`.
+      const groupPath = currentPath.length > 0 ? currentPath.join('.') : 'observations';
+      const group = readGroup(groupPath, v, merge);
+      if (group) out.push(group);
       continue;
     }
 
@@ -58,6 +242,121 @@ function collectObservationGroups(
   return out;
 }
 
+/**
+ * Merge resolved profiles (base → derived) by groupPath. Later profiles append by default;
+ * `merge: replace` and `merge: remove` drop the inherited observations of the group, an
+ * observation with an `id` overrides the inherited observation with that id, and `{ id, remove: true }`
+ * drops it. Merging happens within the profiles each entry profile applies (itself and what it
+ * inherits or composes); observations of unrelated entry profiles are never dropped, only concatenated.
+ */
+export function mergeProfileGroups(resolved: ResolvedProfile[]): EffectiveFramework {
+  const byGroup = new Map<string, EffectiveObservation[]>();
+  const contributed = new Map<ObservationGroup, EffectiveObservation[]>();
+  const dropped: DroppedObservation[] = [];
+
+  // Each profile with everything it inherits or composes, directly or transitively.
+  const byId = new Map(resolved.map((p) => [p.id, p]));
+  const closures = new Map<string, Set<string>>();
+  for (const p of resolved) {
+    const closure = new Set([p.id]);
+    const pending = [p];
+    for (let next = pending.pop(); next; next = pending.pop()) {
+      for (const r of profileRelations(next.profile)) {
+        const target = byId.get(r.target);
+        if ((r.type !== 'inherits' && r.type !== 'composes') || !target || closure.has(target.id)) continue;
+        closure.add(target.id);
+        pending.push(target);
+      }
+    }
+    closures.set(p.id, closure);
+  }
+  // Entry profiles are those no other applied profile pulls in. A profile may merge with everything
+  // in the closures of the entry profiles that apply it.
+  const entries = resolved.filter((p) => !resolved.some((q) => q.id !== p.id && closures.get(q.id)!.has(p.id)));
+  const scopeOf = (id: string) =>
+    new Set(entries.flatMap((e) => (closures.get(e.id)!.has(id) ? [...closures.get(e.id)!] : [])));
+
+  const drop = (
+    group: string,
+    matches: (o: EffectiveObservation) => boolean,
+    droppedBy: string,
+    reason: DroppedObservation['reason']
+  ) => {
+    const kept: EffectiveObservation[] = [];
+    for (const o of byGroup.get(group) ?? []) {
+      if (matches(o)) dropped.push({ ...o, group, dropped_by: droppedBy, reason });
+      else kept.push(o);
+    }
+    byGroup.set(group, kept);
+  };
+
+  for (const p of resolved) {
+    const scope = scopeOf(p.id);
+    const inherited = (o: EffectiveObservation) => scope.has(o.profile);
+    for (const g of p.groups) {
+      if (g.merge === 'replace' || g.merge === 'remove') {
+        drop(g.groupPath, inherited, p.id, g.merge === 'replace' ? 'replaced' : 'removed');
+      }
+      const removed = new Set(g.removes ?? []);
+      drop(g.groupPath, (o) => inherited(o) && o.id !== undefined && removed.has(o.id), p.id, 'removed');
+      const overriding = new Set(g.observationIds ?? []);
+      drop(g.groupPath, (o) => inherited(o) && o.id !== undefined && overriding.has(o.id), p.id, 'overridden');
+
+      const own: EffectiveObservation[] =
+        g.merge === 'remove'
+          ? []
+          : g.observations.map((text, i) => {
+              const id = g.observationIds?.[i];
+              return id === undefined ? { text, profile: p.id } : { text, profile: p.id, id };
+            });
+      contributed.set(g, own);
+      byGroup.set(g.groupPath, [...(byGroup.get(g.groupPath) ?? []), ...own]);
+    }
+  }
+
+  const surviving = new Set([...byGroup.values()].flat());
+  const profiles = resolved.map((p) => ({
+    ...p,
+    groups: p.groups
+      .map((g) => ({
+        groupPath: g.groupPath,
+        observations: contributed.get(g)!.filter((o) => surviving.has(o)).map((o) => o.text)
+      }))
+      .filter((g) => g.observations.length > 0)
+  }));
+  const groups = [...byGroup.entries()]
+    .filter(([, observations]) => observations.length > 0)
+    .map(([group, observations]) => ({ group, observations }));
+
+  return { profiles, groups, dropped };
+}
+
+/**
+ * One warning per deprecated profile among `resolved`, naming its replacement when it has one.
+ */
+export function profileDeprecationWarnings(resolved: ResolvedProfile[]): string[] {
+  return resolved
+    .filter((p) => p.profile.deprecated === true)
+    .map((p) => {
+      const reason = p.profile.deprecated_reason ? `: ${p.profile.deprecated_reason}` : '';
+      const replacement = p.profile.superseded_by ? `; use ${p.profile.superseded_by} instead` : '';
+      return `Profile ${p.id} is deprecated${reason}${replacement}`;
+    });
+}
+
+/**
+ * Whether a profile file is marked deprecated. Files that cannot be read or parsed count as not
+ * deprecated, so listings still show them.
+ */
+async function isDeprecatedFile(filePath: string): Promise<boolean> {
+  try {
+    const parsed = YAML.parse(await readFile(filePath, 'utf8')) as unknown;
+    return isRecord(parsed) && parsed.deprecated === true;
+  } catch {
+    return false;
+  }
+}
+
 async function listYamlFilesRecursive(dir: string): Promise<string[]> {
   const entries = await readdir(dir, { withFileTypes: true });
   const out: string[] = [];
@@ -79,7 +378,10 @@ async function listYamlFilesRecursive(dir: string): Promise<string[]> {
 export class DomainProfileStore {
   constructor(private readonly baseDir = path.join(process.cwd(), 'profiles', 'domains')) {}
 
-  async listProfileIds(): Promise<string[]> {
+  /**
+   * Profile ids, sorted. Deprecated profiles are left out unless `includeDeprecated` is set.
+   */
+  async listProfileIds(options: { includeDeprecated?: boolean } = {}): Promise<string[]> {
     try {
       const s = await stat(this.baseDir);
       if (!s.isDirectory()) return [];
@@ -87,11 +389,12 @@ export class DomainProfileStore {
       return [];
     }
 
-    const files = await listYamlFilesRecursive(this.baseDir);
-    const ids = files.map((f) => {
+    const ids: string[] = [];
+    for (const f of await listYamlFilesRecursive(this.baseDir)) {
+      if (!options.includeDeprecated && (await isDeprecatedFile(f))) continue;
       const rel = path.relative(this.baseDir, f);
-      return rel.replace(/\\/g, '/').replace(/\.(ya?ml)$/i, '');
-    });
+      ids.push(rel.replace(/\\/g, '/').replace(/\.(ya?ml)$/i, ''));
+    }
 
     // Stable ordering
     return ids.sort((a, b) => a.localeCompare(b));
@@ -103,6 +406,115 @@ export class DomainProfileStore {
     return path.join(this.baseDir, ...safeRel.split('/')) + '.yaml';
   }
 
+  /**
+   * sha256 of the profile file as stored, or null when it does not exist.
+   */
+  async profileSha256(profileId: string): Promise<string | null> {
+    try {
+      return sha256(await readFile(this.profilePath(profileId), 'utf8'));
+    } catch (err: unknown) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  /**
+   * Write a profile's YAML verbatim. When `expectedSha256` is given, the write is rejected with a
+   * ConflictError unless the stored file still hashes to that value. The check and the write hold
+   * the file's lock, so of two writers sending the same hash only the first succeeds.
+   */
+  async putProfileYaml(
+    profileId: string,
+    yamlText: string,
+    expectedSha256?: string
+  ): Promise<{ filePath: string; sha256: string }> {
+    // Validate that YAML parses to a valid profile before writing.
+    const parsed = YAML.parse(yamlText) as unknown;
+    if (!isRecord(parsed)) {
+      throw new Error(`Domain profile ${profileId}: yaml must parse to a YAML mapping/object`);
+    }
+    const errors = domainProfileErrors(parsed);
+    if (errors.length > 0) {
+      throw new Error(`Invalid domain profile ${profileId}: ${errors.join(', ')}`);
+    }
+
+    const filePath = this.profilePath(profileId);
+    return withFileLock(filePath, async () => {
+      assertExpectedSha256(`profile '${profileId}'`, expectedSha256, await this.profileSha256(profileId));
+
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, yamlText, 'utf8');
+
+      return { filePath, sha256: sha256(yamlText) };
+    });
+  }
+
+  /**
+   * Deprecate a profile (soft delete) by writing deprecation metadata into its YAML file.
+   * `supersededBy` names the profile to use instead; it must exist.
+   */
+  async deprecateProfile(
+    profileId: string,
+    options: { reason?: string; supersededBy?: string } = {}
+  ): Promise<{ filePath: string }> {
+    const { reason, supersededBy } = options;
+    if (supersededBy !== undefined) {
+      if (supersededBy === profileId) {
+        throw new Error(`Domain profile ${profileId} cannot be superseded by itself`);
+      }
+      if ((await this.profileSha256(supersededBy)) === null) {
+        throw new Error(`Profile '${supersededBy}' (superseded_by) not found`);
+      }
+    }
+
+    return this.updateProfileDocument(profileId, (doc) => {
+      doc.deprecated = true;
+      doc.deprecated_at = new Date().toISOString();
+      if (reason && reason.trim().length > 0) doc.deprecated_reason = reason;
+      if (supersededBy !== undefined) doc.superseded_by = supersededBy;
+    });
+  }
+
+  /**
+   * Undo deprecateProfile: remove the deprecation metadata and superseded_by pointer.
+   */
+  async undeprecateProfile(profileId: string): Promise<{ filePath: string }> {
+    return this.updateProfileDocument(profileId, (doc) => {
+      delete doc.deprecated;
+      delete doc.deprecated_at;
+      delete doc.deprecated_reason;
+      delete doc.superseded_by;
+    });
+  }
+
+  private async updateProfileDocument(
+    profileId: string,
+    update: (doc: Record<string, unknown>) => void
+  ): Promise<{ filePath: string }> {
+    const filePath = this.profilePath(profileId);
+
+    return withFileLock(filePath, async () => {
+      let raw: string;
+      try {
+        raw = await readFile(filePath, 'utf8');
+      } catch (err: unknown) {
+        if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') {
+          throw new Error(`Profile '${profileId}' not found`);
+        }
+        throw err;
+      }
+
+      const parsed = YAML.parse(raw) as unknown;
+      if (!isRecord(parsed)) {
+        throw new Error(`Domain profile ${profileId}: yaml must parse to a YAML mapping/object`);
+      }
+      update(parsed);
+      await writeFile(filePath, YAML.stringify(parsed), 'utf8');
+
+      return { filePath };
+    });
+  }
+
   async loadProfile(profileId: string): Promise<ResolvedProfile> {
     const filePath = this.profilePath(profileId);
 
@@ -120,6 +532,10 @@ export class DomainProfileStore {
     if (!isRecord(parsed)) {
       throw new Error(`Domain profile ${profileId} did not parse as an object`);
     }
+    const errors = domainProfileErrors(parsed);
+    if (errors.length > 0) {
+      throw new Error(`Domain profile ${profileId} failed validation: ${errors.join(', ')}`);
+    }
 
     const profile = parsed as DomainProfile;
     const groups = collectObservationGroups(profile);
@@ -127,34 +543,116 @@ export class DomainProfileStore {
     return { id: profileId, filePath, profile, groups };
   }
 
+  /**
+   * Resolve profiles with their inheritance, base → derived, keeping only the observations that
+   * survive merging (see mergeProfileGroups).
+   */
   async resolveProfiles(entryProfileIds: string[]): Promise<ResolvedProfile[]> {
+    return mergeProfileGroups(await this.loadInheritanceOrder(entryProfileIds)).profiles;
+  }
+
+  /**
+   * The merged framework for the given profiles, with the profile each observation came from and
+   * the inherited observations that were dropped.
+   */
+  async effectiveFramework(entryProfileIds: string[]): Promise<EffectiveFramework> {
+    return mergeProfileGroups(await this.loadInheritanceOrder(entryProfileIds));
+  }
+
+  /**
+   * Load the profiles to apply, base → derived: each entry profile after what it inherits (by
+   * ascending priority) and composes. Fails on cycles, on `composes` groups the target does not have,
+   * and when a `requires` target is not applied or a `conflicts_with` target is. Errors name the
+   * chain of relations that applied each profile.
+   */
+  private async loadInheritanceOrder(entryProfileIds: string[]): Promise<ResolvedProfile[]> {
     // DFS with cycle detection.
     const resolved: ResolvedProfile[] = [];
-    const visiting = new Set<string>();
-    const visited = new Set<string>();
-
-    const visit = async (id: string) => {
-      if (visited.has(id)) return;
-      if (visiting.has(id)) {
-        throw new Error(`Cycle detected in domain profile inheritance at: ${id}`);
+    const loaded = new Map<string, ResolvedProfile>();
+    // The first chain of relations that applied each profile, entry profile first.
+    const chains = new Map<string, string[]>();
+    // Profiles applied only through composes, and the group paths selected so far.
+    const composedGroups = new Map<string, Set<string>>();
+
+    const load = async (id: string) => {
+      const cached = loaded.get(id);
+      if (cached) return cached;
+      const p = await this.loadProfile(id);
+      loaded.set(id, p);
+      return p;
+    };
+    const assertNoCycle = (chain: string[], id: string) => {
+      if (chain.includes(id)) {
+        const cycle = [...chain.slice(chain.indexOf(id)), id];
+        throw new Error(`Cycle detected in domain profile inheritance: ${cycle.join(' -> ')}`);
       }
+    };
+    const removeComposed = (id: string) => {
+      const index = resolved.findIndex((p) => p.id === id);
+      if (index >= 0) resolved.splice(index, 1);
+      composedGroups.delete(id);
+    };
 
-      visiting.add(id);
-      const p = await this.loadProfile(id);
+    const compose = async (r: ProfileRelation, chain: string[]) => {
+      assertNoCycle(chain, r.target);
+      if (resolved.some((p) => p.id === r.target) && !composedGroups.has(r.target)) return;
+
+      const target = await load(r.target);
+      for (const selector of r.groups ?? []) {
+        if (!target.groups.some((g) => groupSelected(g.groupPath, selector))) {
+          throw new Error(
+            `Profile ${chain.at(-1)} composes ${r.target}, which has no group '${selector}' (chain: ${chain.join(' -> ')})`
+          );
+        }
+      }
 
-      const rels = Array.isArray(p.profile.relations) ? p.profile.relations : [];
-      for (const r of rels) {
-        if (!r || r.type !== 'inherits' || typeof r.target !== 'string') continue;
-        await visit(r.target);
+      const selected = composedGroups.get(r.target) ?? new Set<string>();
+      for (const g of target.groups) {
+        if (!r.groups || r.groups.some((s) => groupSelected(g.groupPath, s))) selected.add(g.groupPath);
       }
+      removeComposed(r.target);
+      composedGroups.set(r.target, selected);
+      if (!chains.has(r.target)) chains.set(r.target, [...chain, r.target]);
+      resolved.push({ ...target, groups: target.groups.filter((g) => selected.has(g.groupPath)) });
+    };
+
+    const visit = async (id: string, via: string[]) => {
+      assertNoCycle(via, id);
+      if (resolved.some((p) => p.id === id) && !composedGroups.has(id)) return;
+
+      const chain = [...via, id];
+      const p = await load(id);
+      const relations = profileRelations(p.profile);
 
-      visiting.delete(id);
-      visited.add(id);
+      const inherits = relations
+        .filter((r) => r.type === 'inherits')
+        .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+      for (const r of inherits) await visit(r.target, chain);
+      for (const r of relations.filter((r) => r.type === 'composes')) await compose(r, chain);
+
+      // Applied in full now, even if something composed it before.
+      removeComposed(id);
+      if (!chains.has(id)) chains.set(id, chain);
       resolved.push(p);
     };
 
     for (const id of entryProfileIds) {
-      await visit(id);
+      await visit(id, []);
+    }
+
+    const applied = new Set(resolved.map((p) => p.id));
+    const chainOf = (id: string) => chains.get(id)!.join(' -> ');
+    for (const p of resolved) {
+      for (const r of profileRelations(p.profile)) {
+        if (r.type === 'requires' && !applied.has(r.target)) {
+          throw new Error(`Profile ${p.id} requires ${r.target}, which is not applied (chain: ${chainOf(p.id)})`);
+        }
+        if (r.type === 'conflicts_with' && applied.has(r.target)) {
+          throw new Error(
+            `Profile ${p.id} conflicts with ${r.target}, but both are applied (chains: ${chainOf(p.id)}; ${chainOf(r.target)})`
+          );
+        }
+      }
     }
 
     // `resolved` order is base → derived due to DFS post-order push.
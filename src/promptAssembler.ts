@@ -0,0 +1,154 @@
+import type { ObservationGroup, ResolvedProfile } from './profileStore.js';
+
+/**
+ * System-message lead-in placed before a compiled domain framework.
+ */
+export const FRAMEWORK_PREAMBLE =
+  'You must follow this framework. Treat all observations as mandatory requirements.\n\n';
+
+/**
+ * One observation group that was shortened or removed to fit the budget.
+ */
+export type PromptTrim = {
+  profile: string;
+  group: string;
+  action: 'summarized' | 'dropped';
+  tokens_before: number;
+  tokens_after: number;
+};
+
+export type PromptBudgetReport = {
+  budget: number;
+  /** Estimated tokens of the assembled prompt after trimming. */
+  estimated_tokens: number;
+  /** Estimated tokens of the content that is never trimmed (instructions, MCD, step/user input). */
+  reserved_tokens: number;
+  /** True when the prompt is still over budget after every group was dropped. */
+  over_budget: boolean;
+  trimmed: PromptTrim[];
+};
+
+export type FitFrameworkOptions = {
+  budget: number;
+  reservedTokens: number;
+  /** Renders profiles to framework text; normally DomainProfileStore.compileFrameworkPrompt. */
+  compile: (profiles: ResolvedProfile[]) => string;
+};
+
+/**
+ * Rough token estimate (~4 characters per token). Good enough for budgeting; it is not a tokenizer.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Parse a budget from a tool argument or environment value. Returns undefined when unset.
+ */
+export function parseTokenBudget(value: unknown, label: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isInteger(n) || n <= 0) {
+    throw new Error(`${label} must be a positive integer`);
+  }
+  return n;
+}
+
+/**
+ * Default budget from WARPOS_PROMPT_TOKEN_BUDGET, or undefined (no trimming).
+ */
+export function tokenBudgetFromEnv(): number | undefined {
+  return parseTokenBudget(process.env.WARPOS_PROMPT_TOKEN_BUDGET, 'WARPOS_PROMPT_TOKEN_BUDGET');
+}
+
+function groupTokens(g: ObservationGroup): number {
+  return estimateTokens(`\n## ${g.groupPath}\n` + g.observations.map((o) => `- ${o}`).join('\n'));
+}
+
+function summarizeGroup(g: ObservationGroup): ObservationGroup {
+  const omitted = g.observations.length - 1;
+  return {
+    groupPath: g.groupPath,
+    observations: [
+      g.observations[0],
+      `(${omitted} more observation${omitted === 1 ? '' : 's'} omitted to fit the token budget)`
+    ]
+  };
+}
+
+/**
+ * Fit a compiled domain framework into a token budget.
+ *
+ * Priority, highest first: reserved content (instructions, MCD, step or user input) is never
+ * touched; then observation groups of the most derived profile down to the base profile, and
+ * within a profile earlier groups before later ones. Groups are trimmed lowest priority first:
+ * every group is summarized to its first observation before any group is dropped.
+ */
+export function fitFrameworkToBudget(
+  profiles: ResolvedProfile[],
+  options: FitFrameworkOptions
+): { profiles: ResolvedProfile[]; framework: string; report: PromptBudgetReport } {
+  const working = profiles.map((p) => ({ ...p, groups: [...p.groups] }));
+  const frameworkTokens = () => estimateTokens(FRAMEWORK_PREAMBLE + options.compile(working));
+  let total = options.reservedTokens + frameworkTokens();
+
+  // Trim order: base profile first, last group first.
+  type Candidate = { profile: number; group: ObservationGroup };
+  const order: Candidate[] = [];
+  working.forEach((p, pi) => {
+    for (const g of [...p.groups].reverse()) order.push({ profile: pi, group: g });
+  });
+
+  const trimmed = new Map<Candidate, PromptTrim>();
+  const replace = (item: Candidate, to: ObservationGroup | undefined) => {
+    const groups = working[item.profile].groups;
+    const idx = groups.indexOf(item.group);
+    if (to) groups[idx] = to;
+    else groups.splice(idx, 1);
+    total = options.reservedTokens + frameworkTokens();
+  };
+
+  // Pass 1: summarize.
+  for (const item of order) {
+    if (total <= options.budget) break;
+    if (item.group.observations.length < 3) continue; // A summary would not be shorter.
+    const summary = summarizeGroup(item.group);
+    trimmed.set(item, {
+      profile: working[item.profile].id,
+      group: item.group.groupPath,
+      action: 'summarized',
+      tokens_before: groupTokens(item.group),
+      tokens_after: groupTokens(summary)
+    });
+    replace(item, summary);
+    item.group = summary;
+  }
+
+  // Pass 2: drop.
+  for (const item of order) {
+    if (total <= options.budget) break;
+    const entry: PromptTrim = trimmed.get(item) ?? {
+      profile: working[item.profile].id,
+      group: item.group.groupPath,
+      action: 'dropped',
+      tokens_before: groupTokens(item.group),
+      tokens_after: 0
+    };
+    entry.action = 'dropped';
+    entry.tokens_after = 0;
+    trimmed.set(item, entry);
+    replace(item, undefined);
+  }
+
+  return {
+    profiles: working,
+    framework: options.compile(working),
+    report: {
+      budget: options.budget,
+      estimated_tokens: total,
+      reserved_tokens: options.reservedTokens,
+      over_budget: total > options.budget,
+      trimmed: [...trimmed.values()]
+    }
+  };
+}
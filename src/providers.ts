@@ -0,0 +1,104 @@
+import { ProviderRegistry, type ChatOptions, type LlmProvider } from './llmProvider.js';
+import { openAiCompatibleChat, type OpenAiCompatibleConfig } from './openAiCompatible.js';
+import { getDefaultZaiModel, zaiChat, zaiConfigured } from './zaiClient.js';
+
+function getEnv(name: string): string | undefined {
+  const v = process.env[name];
+  return v && v.trim().length > 0 ? v : undefined;
+}
+
+/**
+ * Adapt a chat function for an OpenAI-compatible backend to the provider interface.
+ */
+function openAiCompatibleProvider(
+  id: string,
+  details: {
+    local: boolean;
+    defaultModel: () => string;
+    configured: () => boolean;
+    chat: (messages: Parameters<LlmProvider['chat']>[0], options: ChatOptions) => ReturnType<LlmProvider['chat']>;
+  }
+): LlmProvider {
+  return {
+    id,
+    capabilities: () => ({ streaming: true, local: details.local }),
+    defaultModel: details.defaultModel,
+    configured: details.configured,
+    chat: (messages, options = {}) => details.chat(messages, options),
+    stream: (messages, options) => details.chat(messages, { ...options, stream: true })
+  };
+}
+
+/**
+ * z.ai (the original backend). Configured by DEVPACK_CODING_PLAN_API_KEY / ZAI_API_KEY, ZAI_BASE_URL and ZAI_MODEL.
+ */
+export function createZaiProvider(): LlmProvider {
+  return openAiCompatibleProvider('zai', {
+    local: false,
+    defaultModel: getDefaultZaiModel,
+    configured: zaiConfigured,
+    chat: zaiChat
+  });
+}
+
+/**
+ * Any hosted OpenAI-compatible API. Configured by OPENAI_API_KEY, OPENAI_BASE_URL and OPENAI_MODEL.
+ */
+export function createOpenAiProvider(): LlmProvider {
+  const defaultModel = () => getEnv('OPENAI_MODEL') ?? 'gpt-4o-mini';
+  const config = (): OpenAiCompatibleConfig => {
+    const apiKey = getEnv('OPENAI_API_KEY');
+    if (!apiKey) throw new Error('Missing API key. Set OPENAI_API_KEY to use the openai provider.');
+    return {
+      id: 'openai',
+      label: 'openai',
+      baseUrl: getEnv('OPENAI_BASE_URL') ?? 'https://api.openai.com/v1',
+      apiKey,
+      defaultModel: defaultModel(),
+      envPrefix: 'OPENAI'
+    };
+  };
+  return openAiCompatibleProvider('openai', {
+    local: false,
+    defaultModel,
+    configured: () => getEnv('OPENAI_API_KEY') !== undefined,
+    chat: (messages, options) => openAiCompatibleChat(config(), messages, options)
+  });
+}
+
+/**
+ * A local server with an OpenAI-compatible endpoint (Ollama's `/v1`, llama.cpp's `llama-server`).
+ * Configured by LOCAL_LLM_BASE_URL, LOCAL_LLM_MODEL and optionally LOCAL_LLM_API_KEY.
+ */
+export function createLocalProvider(): LlmProvider {
+  const defaultModel = () => getEnv('LOCAL_LLM_MODEL') ?? 'llama3.1';
+  return openAiCompatibleProvider('local', {
+    local: true,
+    defaultModel,
+    configured: () => true,
+    chat: (messages, options) =>
+      openAiCompatibleChat(
+        {
+          id: 'local',
+          label: 'local LLM',
+          baseUrl: getEnv('LOCAL_LLM_BASE_URL') ?? 'http://127.0.0.1:11434/v1',
+          apiKey: getEnv('LOCAL_LLM_API_KEY'),
+          defaultModel: defaultModel(),
+          envPrefix: 'LOCAL_LLM'
+        },
+        messages,
+        options
+      )
+  });
+}
+
+/**
+ * Registry with the built-in providers. Models without a `provider:` prefix go to
+ * WARPOS_DEFAULT_PROVIDER (default `zai`).
+ */
+export function createDefaultProviderRegistry(): ProviderRegistry {
+  return new ProviderRegistry(() => getEnv('WARPOS_DEFAULT_PROVIDER') ?? 'zai')
+    .register(createZaiProvider())
+    .register(createOpenAiProvider())
+    .register(createLocalProvider());
+}
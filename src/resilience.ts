@@ -0,0 +1,298 @@
+/**
+ * Retry, concurrency and circuit-breaker helpers for outbound model requests.
+ */
+
+export type FailureClassification =
+  | 'rate_limited'
+  | 'server_error'
+  | 'client_error'
+  | 'network'
+  | 'timeout'
+  | 'invalid_response'
+  | 'cancelled'
+  | 'circuit_open';
+
+const RETRYABLE: ReadonlySet<FailureClassification> = new Set([
+  'rate_limited',
+  'server_error',
+  'network',
+  'timeout',
+  // A garbled body is usually a proxy or a truncated response; worth another try.
+  'invalid_response'
+]);
+
+/**
+ * A model request that failed for good. `attempts` counts every request sent (0 when the
+ * circuit was open); `classification` is the reason the last attempt failed.
+ */
+export class ModelRequestError extends Error {
+  readonly classification: FailureClassification;
+  readonly attempts: number;
+  readonly status?: number;
+  /** Delay the server asked for via Retry-After, in milliseconds. */
+  readonly retryAfterMs?: number;
+  /** Defaults from the classification; callers may veto a retry (e.g. after a partial stream). */
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    details: {
+      classification: FailureClassification;
+      attempts?: number;
+      status?: number;
+      retryAfterMs?: number;
+      retryable?: boolean;
+    }
+  ) {
+    super(message);
+    this.name = 'ModelRequestError';
+    this.classification = details.classification;
+    this.attempts = details.attempts ?? 1;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.retryable = details.retryable ?? RETRYABLE.has(details.classification);
+  }
+}
+
+/**
+ * Classify an HTTP status. 408 and 5xx are transient; 429 is rate limiting; other 4xx are not retried.
+ */
+export function classifyStatus(status: number): FailureClassification {
+  if (status === 429) return 'rate_limited';
+  if (status === 408 || status >= 500) return 'server_error';
+  return 'client_error';
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or an HTTP date) into milliseconds from `now`.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * 1000);
+  const at = Date.parse(trimmed);
+  if (Number.isNaN(at)) return undefined;
+  return Math.max(0, at - now);
+}
+
+export type RetryPolicy = {
+  /** Retries after the first attempt. */
+  maxRetries: number;
+  baseDelayMs: number;
+  /** Upper bound for backoff; a Retry-After longer than this fails the request instead of waiting. */
+  maxDelayMs: number;
+};
+
+export type RetryOptions = {
+  policy: RetryPolicy;
+  signal?: AbortSignal;
+  /** Called before each retry; useful for logging. */
+  onRetry?: (err: ModelRequestError, attempt: number, delayMs: number) => void;
+  random?: () => number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+};
+
+function envNumber(name: string, fallback: number, min = 0): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= min ? n : fallback;
+}
+
+export function retryPolicyFromEnv(prefix = 'ZAI'): RetryPolicy {
+  return {
+    maxRetries: envNumber(`${prefix}_MAX_RETRIES`, 3),
+    baseDelayMs: envNumber(`${prefix}_RETRY_BASE_DELAY_MS`, 500),
+    maxDelayMs: envNumber(`${prefix}_RETRY_MAX_DELAY_MS`, 30_000)
+  };
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to base * 2^(attempt - 1), capped at maxDelayMs.
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number, random = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Run `fn` until it succeeds, throws a non-retryable error, or the policy runs out of retries.
+ * `fn` must throw ModelRequestError for failures it wants retried; anything else is rethrown as is.
+ * The final error's message and `attempts` record how many requests were made.
+ */
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { policy } = options;
+  const wait = options.sleep ?? sleep;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err: unknown) {
+      if (!(err instanceof ModelRequestError)) throw err;
+
+      const finalError = (reason?: string) =>
+        new ModelRequestError(
+          `${err.message} [${err.classification} after ${attempt} attempt${attempt === 1 ? '' : 's'}${reason ? `; ${reason}` : ''}]`,
+          {
+            classification: err.classification,
+            attempts: attempt,
+            status: err.status,
+            retryAfterMs: err.retryAfterMs,
+            retryable: err.retryable
+          }
+        );
+
+      if (!err.retryable || attempt > policy.maxRetries || options.signal?.aborted) throw finalError();
+      if (err.retryAfterMs !== undefined && err.retryAfterMs > policy.maxDelayMs) {
+        throw finalError(`Retry-After ${err.retryAfterMs}ms exceeds the ${policy.maxDelayMs}ms limit`);
+      }
+
+      const delay = err.retryAfterMs ?? backoffDelay(policy, attempt, options.random);
+      options.onRetry?.(err, attempt, delay);
+      try {
+        await wait(delay, options.signal);
+      } catch {
+        throw new ModelRequestError(`${err.message} [cancelled while waiting to retry]`, {
+          classification: 'cancelled',
+          attempts: attempt,
+          status: err.status
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Caps the number of requests in flight; callers beyond the limit queue in FIFO order.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+
+  constructor(readonly maxConcurrent: number) {}
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (this.active >= this.maxConcurrent) {
+      await new Promise<void>((resolve, reject) => {
+        const start = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        const onAbort = () => {
+          const idx = this.queue.indexOf(start);
+          if (idx >= 0) this.queue.splice(idx, 1);
+          reject(signal!.reason);
+        };
+        if (signal?.aborted) return reject(signal.reason);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        this.queue.push(start);
+      });
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await fn();
+    } finally {
+      // Hand the slot straight to the next waiter, or release it.
+      const next = this.queue.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export type CircuitBreakerOptions = {
+  /** Consecutive failed calls that open the circuit. */
+  failureThreshold: number;
+  /** How long the circuit stays open before a single trial call is let through. */
+  cooldownMs: number;
+  now?: () => number;
+};
+
+/**
+ * Stops sending requests to a backend that keeps failing. After `failureThreshold` consecutive
+ * failures the circuit opens and calls fail fast; after `cooldownMs` one trial call is allowed
+ * (half-open) and its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+  private readonly now: () => number;
+
+  constructor(private readonly options: CircuitBreakerOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) return 'closed';
+    return this.now() - this.openedAt >= this.options.cooldownMs ? 'half_open' : 'open';
+  }
+
+  /**
+   * Reserve permission to send a call. Returns the milliseconds until the next trial when the
+   * circuit is open, or 0 when the call may proceed.
+   */
+  acquire(): number {
+    const state = this.state;
+    if (state === 'closed') return 0;
+    if (state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return 0;
+    }
+    const remaining = this.openedAt! + this.options.cooldownMs - this.now();
+    return Math.max(remaining, 1);
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.options.failureThreshold) {
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  /** Release a trial reservation without counting it (e.g. the caller cancelled). */
+  release(): void {
+    this.trialInFlight = false;
+  }
+}
+
+export function circuitBreakerFromEnv(prefix = 'ZAI'): CircuitBreaker {
+  return new CircuitBreaker({
+    failureThreshold: envNumber(`${prefix}_CIRCUIT_FAILURE_THRESHOLD`, 5, 1),
+    cooldownMs: envNumber(`${prefix}_CIRCUIT_COOLDOWN_MS`, 30_000)
+  });
+}
+
+export function concurrencyLimiterFromEnv(prefix = 'ZAI'): ConcurrencyLimiter {
+  return new ConcurrencyLimiter(envNumber(`${prefix}_MAX_CONCURRENCY`, 4, 1));
+}
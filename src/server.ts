@@ -0,0 +1,1467 @@
+import { readFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import YAML from 'yaml';
+
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+import { DomainProfileStore, profileDeprecationWarnings } from './profileStore.js';
+import { lintProfiles } from './profileLint.js';
+import { buildProfileGraph, profileGraphToDot, profileGraphToMermaid } from './profileGraph.js';
+import { McdStore } from './mcdStore.js';
+import { TaskTemplateStore } from './templateStore.js';
+import { TaskInstanceStore } from './instanceStore.js';
+import { TaskExecutor } from './taskExecutor.js';
+import { PlanDecomposer } from './planDecomposer.js';
+import { WorkflowExecutor, type WorkflowNodeSpec } from './workflowExecutor.js';
+import { ConflictError, sha256 } from './concurrency.js';
+import { flattenSections } from './mcdSections.js';
+import {
+  FRAMEWORK_PREAMBLE,
+  estimateTokens,
+  fitFrameworkToBudget,
+  parseTokenBudget,
+  tokenBudgetFromEnv
+} from './promptAssembler.js';
+import { VerificationRunner, verificationOptionsFromEnv } from './verificationRunner.js';
+import type { ChatMessage, ChatOptions } from './llmProvider.js';
+import { createDefaultProviderRegistry } from './providers.js';
+import { LlmRecorder, llmModeFromEnv } from './llmRecorder.js';
+import { StructuredOutputError, chatForJson, parseMaxRepairs } from './structuredOutput.js';
+import type { JsonSchema } from './schema.js';
+
+function asNonEmptyString(v: unknown, label: string): string {
+  if (typeof v !== 'string' || v.trim().length === 0) {
+    throw new Error(`${label} must be a non-empty string`);
+  }
+  return v;
+}
+
+function asStringArray(v: unknown, label: string): string[] {
+  if (!Array.isArray(v) || v.length === 0) {
+    throw new Error(`${label} must be a non-empty array of strings`);
+  }
+  const out = v.filter((x) => typeof x === 'string' && x.trim().length > 0) as string[];
+  if (out.length !== v.length) {
+    throw new Error(`${label} must be a non-empty array of strings`);
+  }
+  return out;
+}
+
+function assertSafeProfileId(id: string): void {
+  // Reject obvious path traversal. IDs are always repo-relative like `example/developer`.
+  if (id.includes('\\') || id.startsWith('/') || id.includes('..')) {
+    throw new Error('Invalid profile id (must be a repo-relative id using `/` separators)');
+  }
+}
+
+function assertSafeProjectSlug(slug: string): void {
+  // Slug is used as a filename under `mcd/`.
+  if (slug.includes('\\') || slug.includes('/') || slug.includes('..') || slug.length > 120) {
+    throw new Error('Invalid project_slug');
+  }
+  // Keep it conservative for filesystem safety.
+  if (!/^[a-zA-Z0-9._-]+$/.test(slug)) {
+    throw new Error('Invalid project_slug (allowed: letters, numbers, dot, underscore, dash)');
+  }
+}
+
+function assertSafeHash(hash: string, label: string): void {
+  // Hashes are used as snapshot filenames; accept full sha256 hex or a unique prefix.
+  if (!/^[0-9a-fA-F]{7,64}$/.test(hash)) {
+    throw new Error(`${label} must be a sha256 hex string (or a prefix of at least 7 characters)`);
+  }
+}
+
+function optionalResponseSchema(v: unknown): JsonSchema | undefined {
+  if (v === undefined) return undefined;
+  if (typeof v !== 'object' || v === null || Array.isArray(v)) {
+    throw new Error('response_schema must be a JSON Schema object');
+  }
+  return v as JsonSchema;
+}
+
+function asWorkflowNodes(v: unknown): WorkflowNodeSpec[] {
+  if (!Array.isArray(v) || v.length === 0) {
+    throw new Error('nodes must be a non-empty array');
+  }
+  return v.map((n, i) => {
+    if (typeof n !== 'object' || n === null || Array.isArray(n)) throw new Error(`nodes[${i}] must be an object`);
+    const node = n as Record<string, unknown>;
+    const bindings = node.bindings ?? [];
+    if (!Array.isArray(bindings)) throw new Error(`nodes[${i}].bindings must be an array`);
+    return {
+      id: asNonEmptyString(node.id, `nodes[${i}].id`),
+      instance_id: asNonEmptyString(node.instance_id, `nodes[${i}].instance_id`),
+      depends_on: node.depends_on === undefined ? [] : asStringArray(node.depends_on, `nodes[${i}].depends_on`),
+      bindings: bindings.map((b, j) => {
+        const label = `nodes[${i}].bindings[${j}]`;
+        if (typeof b !== 'object' || b === null || Array.isArray(b)) throw new Error(`${label} must be an object`);
+        const binding = b as Record<string, unknown>;
+        return {
+          input: asNonEmptyString(binding.input, `${label}.input`),
+          from: asNonEmptyString(binding.from, `${label}.from`),
+          output: asNonEmptyString(binding.output, `${label}.output`)
+        };
+      })
+    };
+  });
+}
+
+function jsonText(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+function optionalExpectedSha256(v: unknown): string | undefined {
+  if (v === undefined) return undefined;
+  const hash = asNonEmptyString(v, 'expected_sha256');
+  if (!/^[0-9a-fA-F]{64}$/.test(hash)) {
+    throw new Error('expected_sha256 must be a 64-character sha256 hex string');
+  }
+  return hash;
+}
+
+/**
+ * Run a write and turn an optimistic-concurrency conflict into a structured tool error
+ * that carries the current hash, so the caller can re-read and retry.
+ */
+async function withConflictResult<T>(
+  write: () => Promise<T>
+): Promise<T | { isError: true; content: Array<{ type: 'text'; text: string }> }> {
+  try {
+    return await write();
+  } catch (err: unknown) {
+    if (!(err instanceof ConflictError)) throw err;
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text',
+          text: jsonText({
+            ok: false,
+            conflict: true,
+            error: err.message,
+            expected_sha256: err.expected_sha256,
+            current_sha256: err.current_sha256
+          })
+        }
+      ]
+    };
+  }
+}
+
+/**
+ * Run a structured model call and turn a reply that never conformed to `response_schema` into a
+ * tool error carrying the validation errors and the last reply.
+ */
+async function withStructuredOutputResult<T>(
+  run: () => Promise<T>
+): Promise<T | { isError: true; content: Array<{ type: 'text'; text: string }> }> {
+  try {
+    return await run();
+  } catch (err: unknown) {
+    if (!(err instanceof StructuredOutputError)) throw err;
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text',
+          text: jsonText({
+            ok: false,
+            error: err.message,
+            attempts: err.attempts,
+            validation_errors: err.validationErrors,
+            last_reply: err.lastReply
+          })
+        }
+      ]
+    };
+  }
+}
+
+const EXPECTED_SHA256_DESCRIPTION =
+  'Optimistic concurrency: only write if the stored document still has this sha256 (as returned by the matching get tool). On mismatch the write is rejected with the current hash.';
+
+const MODEL_DESCRIPTION =
+  'Model to use, optionally prefixed with a provider: `zai:glm-4.6`, `openai:gpt-4o-mini`, `local:llama3.1`. Without a known prefix the default provider (WARPOS_DEFAULT_PROVIDER, default zai) is used. Defaults to the `model` of the most derived profile that sets one.';
+
+const RESPONSE_SCHEMA_DESCRIPTION =
+  'JSON Schema the reply must conform to. The model is asked for JSON, the reply is validated and re-prompted with the errors up to max_repairs times, and the parsed value is returned as JSON text (not streamed).';
+
+const MAX_REPAIRS_DESCRIPTION =
+  'Re-prompts after a reply that is not valid JSON or does not match response_schema (0-10). Defaults to WARPOS_JSON_MAX_REPAIRS, or 2.';
+
+const TOKEN_BUDGET_DESCRIPTION =
+  'Estimated prompt token limit (~4 characters per token). Lower-priority observation groups are summarized, then dropped, to fit. Defaults to WARPOS_PROMPT_TOKEN_BUDGET; unset means no trimming.';
+
+/**
+ * Options for a model call made on behalf of a tool request. The call is cancelled with the MCP
+ * request, and when the client asked for progress (`_meta.progressToken`) the reply is streamed and
+ * each fragment is forwarded as a `notifications/progress` message.
+ */
+function chatRequestOptions(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Pick<ChatOptions, 'signal' | 'stream' | 'onDelta'> {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return { signal: extra.signal };
+
+  return {
+    signal: extra.signal,
+    stream: true,
+    onDelta: (delta, text) => {
+      // Progress is the number of characters received so far; the fragment rides along as the message.
+      extra
+        .sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress: text.length, message: delta }
+        })
+        .catch(() => {
+          // The client may have gone away; the final result still reports the full text.
+        });
+    }
+  };
+}
+
+export type ServerOptions = {
+  /**
+   * Directory holding profiles/, mcd/, task-templates/, task-instances/ and .warpos/.
+   * Defaults to the working directory.
+   */
+  rootDir?: string;
+};
+
+/**
+ * Build the warpos MCP server with every tool registered. The caller connects a transport.
+ */
+export function createServer(options: ServerOptions = {}): Server {
+  const server = new Server(
+    {
+      name: 'warpos',
+      version: '0.1.0'
+    },
+    {
+      capabilities: {
+        tools: {}
+      }
+    }
+  );
+
+  const rootDir = options.rootDir ?? process.cwd();
+  const domainProfiles = new DomainProfileStore(path.join(rootDir, 'profiles', 'domains'));
+  const mcdStore = new McdStore(path.join(rootDir, 'mcd'));
+  const taskTemplates = new TaskTemplateStore(path.join(rootDir, 'task-templates'));
+  const taskInstances = new TaskInstanceStore(taskTemplates, path.join(rootDir, 'task-instances'));
+  const plansDir = path.join(rootDir, '.warpos', 'plans');
+  const llmProviders = createDefaultProviderRegistry();
+  // Every model call goes through the recorder so WARPOS_LLM_MODE=record|replay covers all tools.
+  const llm = new LlmRecorder(llmProviders, {
+    mode: llmModeFromEnv(),
+    dir: path.join(rootDir, '.warpos', 'recordings')
+  });
+  const chat = (messages: ChatMessage[], chatOptions?: ChatOptions) => llm.chat(messages, chatOptions);
+  const taskExecutor = new TaskExecutor(taskInstances, taskTemplates, domainProfiles, plansDir, {
+    mcdStore,
+    chat,
+    verifier: new VerificationRunner(verificationOptionsFromEnv()),
+    tokenBudget: tokenBudgetFromEnv()
+  });
+  const workflows = new WorkflowExecutor(
+    taskExecutor,
+    taskInstances,
+    taskTemplates,
+    path.join(rootDir, '.warpos', 'workflows')
+  );
+  const planDecomposer = new PlanDecomposer(
+    taskTemplates,
+    taskInstances,
+    domainProfiles,
+    path.join(rootDir, '.warpos', 'proposals'),
+    { mcdStore, chat }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: [
+        {
+          name: 'zai_plan',
+          description:
+            'Send a planning/orchestration prompt to z.ai (using DEVPACK_CODING_PLAN_API_KEY) and return the response. Streams progress notifications when the request carries a progressToken.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              prompt: { type: 'string', description: 'The planning prompt.' },
+              response_schema: { type: 'object', description: RESPONSE_SCHEMA_DESCRIPTION },
+              max_repairs: { type: 'integer', minimum: 0, maximum: 10, description: MAX_REPAIRS_DESCRIPTION }
+            },
+            required: ['prompt']
+          }
+        },
+        {
+          name: 'domain_profile_list',
+          description:
+            'List Domain Profile IDs under profiles/domains/ (YAML files). Deprecated profiles are left out unless include_deprecated is set.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              include_deprecated: { type: 'boolean', description: 'Also list deprecated profiles (default false).' }
+            }
+          }
+        },
+        {
+          name: 'domain_profile_get',
+          description:
+            'Get a Domain Profile YAML by profile id (e.g. example/developer). A second content item carries the file sha256 for use as expected_sha256.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              id: { type: 'string' }
+            },
+            required: ['id']
+          }
+        },
+        {
+          name: 'domain_profile_put',
+          description:
+            'Create or update a Domain Profile YAML. NOTE: this overwrites the file for the given profile id; pass expected_sha256 to guard against concurrent edits.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              id: { type: 'string' },
+              yaml: { type: 'string', description: 'Full YAML file contents.' },
+              expected_sha256: {
+                type: 'string',
+                description: EXPECTED_SHA256_DESCRIPTION
+              }
+            },
+            required: ['id', 'yaml']
+          }
+        },
+        {
+          name: 'domain_profile_delete',
+          description:
+            'Deprecate (not hard-delete) a Domain Profile by setting deprecated metadata in the YAML file. Deprecated profiles are hidden from domain_profile_list and produce warnings when applied.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              id: { type: 'string' },
+              reason: { type: 'string' },
+              superseded_by: { type: 'string', description: 'Profile ID to use instead; must exist.' }
+            },
+            required: ['id']
+          }
+        },
+        {
+          name: 'domain_profile_undeprecate',
+          description: 'Undo domain_profile_delete: remove the deprecation metadata and superseded_by pointer.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              id: { type: 'string' }
+            },
+            required: ['id']
+          }
+        },
+        {
+          name: 'domain_profile_lint',
+          description:
+            'Lint Domain Profiles (all by default): schema errors, relations to missing profiles, composes groups the target lacks, conflicts with inherited profiles, inheritance cycles, empty groups, and observations duplicated within a profile or across its inheritance chain.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              ids: { type: 'array', items: { type: 'string' }, minItems: 1 }
+            }
+          }
+        },
+        {
+          name: 'domain_profile_effective',
+          description:
+            'Show the effective framework for one or more Domain Profiles after inheritance merging: each group with the profile every observation came from, the inherited observations that were replaced, removed or overridden, and the compiled framework text.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              profiles: { type: 'array', items: { type: 'string' }, minItems: 1 }
+            },
+            required: ['profiles']
+          }
+        },
+        {
+          name: 'domain_profile_resolve',
+          description:
+            'Resolve one or more Domain Profiles without calling a model: the resolved order (base → derived), the relation graph (nodes/edges) with per-profile observation counts and token estimates, the compiled framework text, and the graph as Graphviz DOT and Mermaid.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              profiles: { type: 'array', items: { type: 'string' }, minItems: 1 }
+            },
+            required: ['profiles']
+          }
+        },
+        {
+          name: 'domain_agent_run',
+          description:
+            'Apply one or more Domain Profiles (with inheritance) and call the model with the compiled framework + user input.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              profiles: { type: 'array', items: { type: 'string' }, minItems: 1 },
+              input: { type: 'string' },
+              model: { type: 'string', description: MODEL_DESCRIPTION },
+              temperature: { type: 'number' },
+              token_budget: { type: 'integer', minimum: 1, description: TOKEN_BUDGET_DESCRIPTION },
+              response_schema: { type: 'object', description: RESPONSE_SCHEMA_DESCRIPTION },
+              max_repairs: { type: 'integer', minimum: 0, maximum: 10, description: MAX_REPAIRS_DESCRIPTION }
+            },
+            required: ['profiles', 'input']
+          }
+        },
+        {
+          name: 'llm_provider_list',
+          description:
+            'List the LLM providers that `model` can route to (as `provider:model`), with their default model, capabilities and whether they are configured.',
+          inputSchema: { type: 'object', additionalProperties: false, properties: {} }
+        },
+        {
+          name: 'mcd_list',
+          description: 'List available MCD project slugs (mcd/<projectSlug>.md).',
+          inputSchema: { type: 'object', additionalProperties: false, properties: {} }
+        },
+        {
+          name: 'mcd_get',
+          description: 'Get an MCD markdown document and its metadata (sha256, updated_at).',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              project_slug: { type: 'string' }
+            },
+            required: ['project_slug']
+          }
+        },
+        {
+          name: 'mcd_put',
+          description:
+            'Create or update an MCD markdown document (writes mcd/<projectSlug>.md). Previous versions are kept in history.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              project_slug: { type: 'string' },
+              markdown: { type: 'string' },
+              expected_sha256: {
+                type: 'string',
+                description: EXPECTED_SHA256_DESCRIPTION
+              }
+            },
+            required: ['project_slug', 'markdown']
+          }
+        },
+        {
+          name: 'mcd_sections',
+          description:
+            'List the addressable sections of an MCD (heading tree and optional YAML frontmatter). Use the returned selectors in a task template\'s mcd_selectors.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              project_slug: { type: 'string' }
+            },
+            required: ['project_slug']
+          }
+        },
+        {
+          name: 'mcd_history',
+          description:
+            'List the saved versions of an MCD (newest first). Every mcd_put/mcd_restore stores a content-addressed snapshot keyed by sha256.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              project_slug: { type: 'string' }
+            },
+            required: ['project_slug']
+          }
+        },
+        {
+          name: 'mcd_get_version',
+          description: 'Get the markdown of a historical MCD version by sha256 (or unique prefix of 7+ chars).',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              project_slug: { type: 'string' },
+              sha256: { type: 'string' }
+            },
+            required: ['project_slug', 'sha256']
+          }
+        },
+        {
+          name: 'mcd_diff',
+          description:
+            'Unified diff between two MCD versions. If to_sha256 is omitted, diffs against the current MCD.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              project_slug: { type: 'string' },
+              from_sha256: { type: 'string' },
+              to_sha256: { type: 'string' }
+            },
+            required: ['project_slug', 'from_sha256']
+          }
+        },
+        {
+          name: 'mcd_restore',
+          description:
+            'Make a historical MCD version current again. The restore is recorded as a new history entry.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              project_slug: { type: 'string' },
+              sha256: { type: 'string' },
+              expected_sha256: {
+                type: 'string',
+                description: EXPECTED_SHA256_DESCRIPTION
+              }
+            },
+            required: ['project_slug', 'sha256']
+          }
+        },
+        {
+          name: 'task_template_list',
+          description:
+            'List available Task Template IDs (latest version of each template). Templates whose every version is deprecated are left out unless include_deprecated is set.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              include_deprecated: { type: 'boolean', description: 'Also list deprecated templates (default false).' }
+            }
+          }
+        },
+        {
+          name: 'task_template_get',
+          description:
+            'Get a Task Template YAML by id and optional version. If version is not specified, returns the latest version. Includes the file sha256 for use as expected_sha256.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              id: { type: 'string' },
+              version: { type: 'integer', minimum: 1 }
+            },
+            required: ['id']
+          }
+        },
+        {
+          name: 'task_template_put',
+          description:
+            'Create or update a Task Template. The template object must include id, version, description, inputs_schema, outputs_schema, and steps.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              template: { type: 'object', description: 'Complete task template object' },
+              expected_sha256: {
+                type: 'string',
+                description: EXPECTED_SHA256_DESCRIPTION
+              }
+            },
+            required: ['template']
+          }
+        },
+        {
+          name: 'task_template_delete',
+          description:
+            'Deprecate (soft delete) a Task Template by id and version. Sets deprecated metadata in the YAML file; new instances can no longer be generated from that version.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              id: { type: 'string' },
+              version: { type: 'integer', minimum: 1 },
+              reason: { type: 'string' },
+              superseded_by: {
+                type: 'string',
+                description: 'Template to use instead: <id>@<version>, or <id> for its latest version; must exist.'
+              }
+            },
+            required: ['id', 'version']
+          }
+        },
+        {
+          name: 'task_template_undeprecate',
+          description:
+            'Undo task_template_delete: remove the deprecation metadata and superseded_by pointer and make the version active again.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              id: { type: 'string' },
+              version: { type: 'integer', minimum: 1 }
+            },
+            required: ['id', 'version']
+          }
+        },
+        {
+          name: 'task_instance_list',
+          description: 'List Task Instance IDs for a given project.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              project_slug: { type: 'string' }
+            },
+            required: ['project_slug']
+          }
+        },
+        {
+          name: 'task_instance_get',
+          description:
+            'Get a Task Instance by project slug and instance ID, including its lifecycle status and transition history.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              project_slug: { type: 'string' },
+              instance_id: { type: 'string' }
+            },
+            required: ['project_slug', 'instance_id']
+          }
+        },
+        {
+          name: 'task_instance_generate',
+          description:
+            'Generate a new Task Instance from a template. Validates inputs against the template schema and creates a locked instance for execution.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              project_slug: { type: 'string' },
+              template_id: { type: 'string' },
+              template_version: { type: 'integer', minimum: 1 },
+              inputs: {
+                type: 'object',
+                description: 'Input parameters validated against template inputs_schema'
+              },
+              mcd_hash: { type: 'string', description: 'SHA-256 hash of the MCD this instance is based on' },
+              domain_profiles: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Domain Profile IDs to apply during execution'
+              }
+            },
+            required: ['project_slug', 'template_id', 'template_version', 'inputs', 'mcd_hash', 'domain_profiles']
+          }
+        },
+        {
+          name: 'task_prepare',
+          description:
+            'Prepare phase: Generate a declarative execution plan from a task instance. Safe to run (no side effects). Returns plan stored at .warpos/plans/<plan_id>.yaml for inspection. Refuses if the project MCD changed since the instance was generated unless allow_mcd_drift is set.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              project_slug: { type: 'string' },
+              instance_id: { type: 'string' },
+              actor: { type: 'string', description: 'Who is preparing the plan (recorded in instance history).' },
+              allow_mcd_drift: {
+                type: 'boolean',
+                description: 'Prepare even if the project MCD changed since the instance was generated.'
+              },
+              token_budget: { type: 'integer', minimum: 1, description: TOKEN_BUDGET_DESCRIPTION }
+            },
+            required: ['project_slug', 'instance_id']
+          }
+        },
+        {
+          name: 'task_execute',
+          description:
+            'Execute phase: Apply the execution plan after GO/NO-GO approval. Has side effects - sends each step (with the domain framework and project MCD) to z.ai and records per-step output, timing and errors in the plan, then runs verification commands (the plan only completes if they pass). Plan status must be "pending".',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              plan_id: { type: 'string', description: 'Plan ID from task_prepare output' },
+              actor: { type: 'string', description: 'Who approved/ran the plan (recorded in instance history).' },
+              allow_mcd_drift: {
+                type: 'boolean',
+                description: 'Execute even if the project MCD changed since the plan was prepared.'
+              }
+            },
+            required: ['plan_id']
+          }
+        },
+        {
+          name: 'workflow_create',
+          description:
+            'Create a workflow: a DAG of existing Task Instances of one project. Each node names an instance and the nodes it depends_on; bindings feed a value from an upstream node\'s outputs into a downstream input (and imply the dependency). Cycles are rejected. Stored at .warpos/workflows/<workflow_id>.yaml.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              project_slug: { type: 'string' },
+              name: { type: 'string' },
+              nodes: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                  type: 'object',
+                  additionalProperties: false,
+                  properties: {
+                    id: { type: 'string', description: 'Node id, unique within the workflow.' },
+                    instance_id: { type: 'string' },
+                    depends_on: { type: 'array', items: { type: 'string' } },
+                    bindings: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        additionalProperties: false,
+                        properties: {
+                          input: { type: 'string', description: 'Input of this node\'s instance to set.' },
+                          from: { type: 'string', description: 'Upstream node id.' },
+                          output: { type: 'string', description: 'Dot path into the upstream outputs, e.g. files.0' }
+                        },
+                        required: ['input', 'from', 'output']
+                      }
+                    }
+                  },
+                  required: ['id', 'instance_id']
+                }
+              }
+            },
+            required: ['project_slug', 'nodes']
+          }
+        },
+        {
+          name: 'workflow_get',
+          description: 'Get a workflow with its dependency order and per-node status, plan_id and error.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              workflow_id: { type: 'string' }
+            },
+            required: ['workflow_id']
+          }
+        },
+        {
+          name: 'workflow_prepare',
+          description:
+            'Prepare phase for a workflow: task_prepare every node in dependency order (no side effects). Bound inputs stay as placeholders in the plans until execution. Workflow status must be "draft" or "prepared".',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              workflow_id: { type: 'string' },
+              actor: { type: 'string', description: 'Who prepared the plans (recorded in instance history).' },
+              allow_mcd_drift: {
+                type: 'boolean',
+                description: 'Prepare even if the project MCD changed since the instances were generated.'
+              },
+              token_budget: { type: 'integer', minimum: 1, description: TOKEN_BUDGET_DESCRIPTION }
+            },
+            required: ['workflow_id']
+          }
+        },
+        {
+          name: 'workflow_execute',
+          description:
+            'Execute phase for a workflow after GO/NO-GO: runs the prepared plans in dependency order, filling bound inputs from upstream outputs. A failed node skips every node downstream of it; independent nodes still run. Workflow status must be "prepared".',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              workflow_id: { type: 'string' },
+              actor: { type: 'string', description: 'Who approved/ran the workflow (recorded in instance history).' },
+              allow_mcd_drift: {
+                type: 'boolean',
+                description: 'Execute even if the project MCD changed since the plans were prepared.'
+              }
+            },
+            required: ['workflow_id']
+          }
+        },
+        {
+          name: 'plan_decompose',
+          description:
+            'Decompose a goal into proposed Task Instances. The model sees the project MCD, the active task templates with their inputs_schema and the available domain profiles; the reply is validated (template versions, inputs, profiles) and re-prompted until it conforms. Nothing is created: the proposal is stored at .warpos/proposals/<proposal_id>.yaml for review, then applied with plan_apply.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              goal: { type: 'string', description: 'What the work should achieve.' },
+              project_slug: { type: 'string' },
+              model: { type: 'string', description: MODEL_DESCRIPTION },
+              temperature: { type: 'number' },
+              max_repairs: { type: 'integer', minimum: 0, maximum: 10, description: MAX_REPAIRS_DESCRIPTION }
+            },
+            required: ['goal', 'project_slug']
+          }
+        },
+        {
+          name: 'plan_proposal_get',
+          description: 'Get a plan proposal from plan_decompose, including its status and, once applied, the created instance ids.',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              proposal_id: { type: 'string' }
+            },
+            required: ['proposal_id']
+          }
+        },
+        {
+          name: 'plan_apply',
+          description:
+            'Create the Task Instances of a reviewed plan proposal in one batch, locked to the MCD hash the proposal was made against. Every entry is re-validated first; if any fails, no instance is created. The proposal status must be "pending".',
+          inputSchema: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              proposal_id: { type: 'string' },
+              indexes: {
+                type: 'array',
+                items: { type: 'integer', minimum: 0 },
+                minItems: 1,
+                description: 'Apply only these proposal entries (0-based). Defaults to all.'
+              }
+            },
+            required: ['proposal_id']
+          }
+        }
+      ]
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (req, extra) => {
+    const { name, arguments: args } = req.params;
+
+    if (name === 'zai_plan') {
+      const prompt = asNonEmptyString((args as any)?.prompt, 'prompt');
+      const responseSchema = optionalResponseSchema((args as any)?.response_schema);
+      if (responseSchema) {
+        const maxRepairs = parseMaxRepairs((args as any)?.max_repairs, 'max_repairs');
+        return withStructuredOutputResult(async () => {
+          const out = await chatForJson(chat, [{ role: 'user', content: prompt }], responseSchema, {
+            model: 'zai:',
+            temperature: 0.2,
+            signal: extra.signal,
+            maxRepairs
+          });
+          return { content: [{ type: 'text', text: jsonText(out.value) }] };
+        });
+      }
+
+      const out = await llm.chat([{ role: 'user', content: prompt }], {
+        model: 'zai:',
+        temperature: 0.2,
+        ...chatRequestOptions(extra)
+      });
+      return { content: [{ type: 'text', text: out.text }] };
+    }
+
+    if (name === 'domain_profile_list') {
+      const includeDeprecated = (args as any)?.include_deprecated === true;
+      const ids = await domainProfiles.listProfileIds({ includeDeprecated });
+      return { content: [{ type: 'text', text: jsonText({ profiles: ids }) }] };
+    }
+
+    if (name === 'domain_profile_get') {
+      const id = asNonEmptyString((args as any)?.id, 'id');
+      assertSafeProfileId(id);
+      const filePath = domainProfiles.profilePath(id);
+
+      let yamlText: string;
+      try {
+        yamlText = await readFile(filePath, 'utf8');
+      } catch (err: unknown) {
+        if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') {
+          throw new Error(`Profile '${id}' not found`);
+        }
+        throw err; // Re-throw other errors unchanged
+      }
+
+      return {
+        content: [
+          { type: 'text', text: yamlText },
+          { type: 'text', text: jsonText({ id, sha256: sha256(yamlText) }) }
+        ]
+      };
+    }
+
+    if (name === 'domain_profile_put') {
+      const id = asNonEmptyString((args as any)?.id, 'id');
+      assertSafeProfileId(id);
+      const yamlText = asNonEmptyString((args as any)?.yaml, 'yaml');
+      const expectedSha256 = optionalExpectedSha256((args as any)?.expected_sha256);
+
+      return withConflictResult(async () => {
+        const out = await domainProfiles.putProfileYaml(id, yamlText, expectedSha256);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: jsonText({
+                ok: true,
+                id,
+                file: path.relative(process.cwd(), out.filePath),
+                sha256: out.sha256
+              })
+            }
+          ]
+        };
+      });
+    }
+
+    if (name === 'domain_profile_delete') {
+      const id = asNonEmptyString((args as any)?.id, 'id');
+      assertSafeProfileId(id);
+      const reason = typeof (args as any)?.reason === 'string' ? (args as any).reason : undefined;
+      const supersededBy =
+        (args as any)?.superseded_by === undefined
+          ? undefined
+          : asNonEmptyString((args as any).superseded_by, 'superseded_by');
+      if (supersededBy !== undefined) assertSafeProfileId(supersededBy);
+
+      const { filePath } = await domainProfiles.deprecateProfile(id, { reason, supersededBy });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonText({ ok: true, id, deprecated: true, file: path.relative(process.cwd(), filePath) })
+          }
+        ]
+      };
+    }
+
+    if (name === 'domain_profile_undeprecate') {
+      const id = asNonEmptyString((args as any)?.id, 'id');
+      assertSafeProfileId(id);
+
+      const { filePath } = await domainProfiles.undeprecateProfile(id);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonText({ ok: true, id, deprecated: false, file: path.relative(process.cwd(), filePath) })
+          }
+        ]
+      };
+    }
+
+    if (name === 'domain_profile_lint') {
+      const ids = (args as any)?.ids === undefined ? undefined : asStringArray((args as any).ids, 'ids');
+      ids?.forEach(assertSafeProfileId);
+      const report = await lintProfiles(domainProfiles, ids);
+      return { content: [{ type: 'text', text: jsonText(report) }] };
+    }
+
+    if (name === 'domain_profile_effective') {
+      const profileIds = asStringArray((args as any)?.profiles, 'profiles');
+      profileIds.forEach(assertSafeProfileId);
+      const effective = await domainProfiles.effectiveFramework(profileIds);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonText({
+              profiles: effective.profiles.map((p) => p.id),
+              groups: effective.groups,
+              dropped: effective.dropped,
+              framework: domainProfiles.compileFrameworkPrompt(effective.profiles),
+              warnings: profileDeprecationWarnings(effective.profiles)
+            })
+          }
+        ]
+      };
+    }
+
+    if (name === 'domain_profile_resolve') {
+      const profileIds = asStringArray((args as any)?.profiles, 'profiles');
+      profileIds.forEach(assertSafeProfileId);
+      const resolved = await domainProfiles.resolveProfiles(profileIds);
+      const graph = buildProfileGraph(resolved, (p) => domainProfiles.compileFrameworkPrompt([p]));
+      const framework = domainProfiles.compileFrameworkPrompt(resolved);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonText({
+              order: resolved.map((p) => p.id),
+              graph,
+              framework,
+              estimated_tokens: estimateTokens(FRAMEWORK_PREAMBLE + framework),
+              warnings: profileDeprecationWarnings(resolved),
+              dot: profileGraphToDot(graph),
+              mermaid: profileGraphToMermaid(graph)
+            })
+          }
+        ]
+      };
+    }
+
+    if (name === 'domain_agent_run') {
+      const profileIds = asStringArray((args as any)?.profiles, 'profiles');
+      profileIds.forEach(assertSafeProfileId);
+      const input = asNonEmptyString((args as any)?.input, 'input');
+
+      const temperature = typeof (args as any)?.temperature === 'number' ? (args as any).temperature : undefined;
+
+      const budget = parseTokenBudget((args as any)?.token_budget, 'token_budget') ?? tokenBudgetFromEnv();
+      const responseSchema = optionalResponseSchema((args as any)?.response_schema);
+      const maxRepairs = parseMaxRepairs((args as any)?.max_repairs, 'max_repairs');
+
+      const resolved = await domainProfiles.resolveProfiles(profileIds);
+
+      // An explicit model wins; otherwise the most derived profile that names one routes the call.
+      const profileModel = [...resolved].reverse().find((p) => typeof p.profile.model === 'string')?.profile.model;
+      const model =
+        typeof (args as any)?.model === 'string' ? (args as any).model : (profileModel as string | undefined);
+      const compile = (profiles: typeof resolved) => domainProfiles.compileFrameworkPrompt(profiles);
+      const fitted =
+        budget === undefined
+          ? undefined
+          : fitFrameworkToBudget(resolved, {
+              budget,
+              reservedTokens: estimateTokens(input),
+              compile
+            });
+      const framework = fitted ? fitted.framework : compile(resolved);
+
+      const messages: ChatMessage[] = [
+        {
+          role: 'system',
+          content: FRAMEWORK_PREAMBLE + framework
+        },
+        { role: 'user', content: input }
+      ];
+      const budgetContent =
+        fitted && (fitted.report.trimmed.length > 0 || fitted.report.over_budget)
+          ? [{ type: 'text', text: jsonText({ prompt_budget: fitted.report }) }]
+          : [];
+      const warnings = profileDeprecationWarnings(resolved);
+      const warningContent = warnings.length > 0 ? [{ type: 'text', text: jsonText({ warnings }) }] : [];
+
+      if (responseSchema) {
+        return withStructuredOutputResult(async () => {
+          const out = await chatForJson(chat, messages, responseSchema, {
+            model,
+            temperature,
+            signal: extra.signal,
+            maxRepairs
+          });
+          return { content: [{ type: 'text', text: jsonText(out.value) }, ...budgetContent, ...warningContent] };
+        });
+      }
+
+      const out = await llm.chat(messages, {
+        model,
+        temperature,
+        ...chatRequestOptions(extra)
+      });
+
+      return { content: [{ type: 'text', text: out.text }, ...budgetContent, ...warningContent] };
+    }
+
+    if (name === 'llm_provider_list') {
+      const defaultId = llmProviders.defaultProvider().id;
+      const providers = llmProviders.list().map((p) => ({
+        id: p.id,
+        default: p.id === defaultId,
+        default_model: p.defaultModel(),
+        configured: p.configured(),
+        capabilities: p.capabilities()
+      }));
+      return { content: [{ type: 'text', text: jsonText({ providers }) }] };
+    }
+
+    if (name === 'mcd_list') {
+      const slugs = await mcdStore.listProjectSlugs();
+      return { content: [{ type: 'text', text: jsonText({ projects: slugs }) }] };
+    }
+
+    if (name === 'mcd_get') {
+      const projectSlug = asNonEmptyString((args as any)?.project_slug, 'project_slug');
+      assertSafeProjectSlug(projectSlug);
+      const out = await mcdStore.get(projectSlug);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonText({ meta: out.meta, markdown: out.markdown })
+          }
+        ]
+      };
+    }
+
+    if (name === 'mcd_put') {
+      const projectSlug = asNonEmptyString((args as any)?.project_slug, 'project_slug');
+      assertSafeProjectSlug(projectSlug);
+      const markdown = typeof (args as any)?.markdown === 'string' ? (args as any).markdown : '';
+      const expectedSha256 = optionalExpectedSha256((args as any)?.expected_sha256);
+
+      return withConflictResult(async () => {
+        const meta = await mcdStore.put(projectSlug, markdown, { expectedSha256 });
+        return { content: [{ type: 'text', text: jsonText({ ok: true, meta }) }] };
+      });
+    }
+
+    if (name === 'mcd_sections') {
+      const projectSlug = asNonEmptyString((args as any)?.project_slug, 'project_slug');
+      assertSafeProjectSlug(projectSlug);
+      const doc = await mcdStore.sections(projectSlug);
+      const sections = flattenSections(doc).map((s) => ({
+        selector: s.selector,
+        title: s.title,
+        level: s.level,
+        start_line: s.start_line,
+        end_line: s.end_line
+      }));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonText({
+              project_slug: projectSlug,
+              frontmatter: doc.frontmatter ?? null,
+              sections
+            })
+          }
+        ]
+      };
+    }
+
+    if (name === 'mcd_history') {
+      const projectSlug = asNonEmptyString((args as any)?.project_slug, 'project_slug');
+      assertSafeProjectSlug(projectSlug);
+      const versions = await mcdStore.listHistory(projectSlug);
+      return { content: [{ type: 'text', text: jsonText({ project_slug: projectSlug, versions }) }] };
+    }
+
+    if (name === 'mcd_get_version') {
+      const projectSlug = asNonEmptyString((args as any)?.project_slug, 'project_slug');
+      assertSafeProjectSlug(projectSlug);
+      const hash = asNonEmptyString((args as any)?.sha256, 'sha256');
+      assertSafeHash(hash, 'sha256');
+      const out = await mcdStore.getVersion(projectSlug, hash);
+      return {
+        content: [{ type: 'text', text: jsonText({ version: out.version, markdown: out.markdown }) }]
+      };
+    }
+
+    if (name === 'mcd_diff') {
+      const projectSlug = asNonEmptyString((args as any)?.project_slug, 'project_slug');
+      assertSafeProjectSlug(projectSlug);
+      const fromHash = asNonEmptyString((args as any)?.from_sha256, 'from_sha256');
+      assertSafeHash(fromHash, 'from_sha256');
+      const toHash = typeof (args as any)?.to_sha256 === 'string' ? (args as any).to_sha256 : undefined;
+      if (toHash !== undefined) assertSafeHash(toHash, 'to_sha256');
+
+      const out = await mcdStore.diff(projectSlug, fromHash, toHash);
+      return { content: [{ type: 'text', text: jsonText(out) }] };
+    }
+
+    if (name === 'mcd_restore') {
+      const projectSlug = asNonEmptyString((args as any)?.project_slug, 'project_slug');
+      assertSafeProjectSlug(projectSlug);
+      const hash = asNonEmptyString((args as any)?.sha256, 'sha256');
+      assertSafeHash(hash, 'sha256');
+      const expectedSha256 = optionalExpectedSha256((args as any)?.expected_sha256);
+
+      return withConflictResult(async () => {
+        const meta = await mcdStore.restore(projectSlug, hash, expectedSha256);
+        return { content: [{ type: 'text', text: jsonText({ ok: true, meta }) }] };
+      });
+    }
+
+    if (name === 'task_template_list') {
+      const includeDeprecated = (args as any)?.include_deprecated === true;
+      const ids = await taskTemplates.listTemplateIds({ includeDeprecated });
+      return { content: [{ type: 'text', text: jsonText({ templates: ids }) }] };
+    }
+
+    if (name === 'task_template_get') {
+      const id = asNonEmptyString((args as any)?.id, 'id');
+      const version = typeof (args as any)?.version === 'number' ? (args as any).version : undefined;
+
+      const template = await taskTemplates.loadTemplate(id, version);
+      const yamlText = YAML.stringify(template);
+      const fileSha256 = await taskTemplates.templateSha256(template.id, template.version);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonText({
+              template,
+              yaml: yamlText,
+              sha256: fileSha256
+            })
+          }
+        ]
+      };
+    }
+
+    if (name === 'task_template_put') {
+      const templateObj = (args as any)?.template;
+      if (!templateObj || typeof templateObj !== 'object') {
+        throw new Error('task_template_put: template must be an object');
+      }
+
+      const expectedSha256 = optionalExpectedSha256((args as any)?.expected_sha256);
+
+      return withConflictResult(async () => {
+        const result = await taskTemplates.putTemplate(templateObj, expectedSha256);
+        return { content: [{ type: 'text', text: jsonText({ ok: true, ...result }) }] };
+      });
+    }
+
+    if (name === 'task_template_delete') {
+      const id = asNonEmptyString((args as any)?.id, 'id');
+      const version = (args as any)?.version;
+      if (typeof version !== 'number' || version < 1) {
+        throw new Error('task_template_delete: version must be a positive integer');
+      }
+
+      const reason = typeof (args as any)?.reason === 'string' ? (args as any).reason : undefined;
+      const supersededBy =
+        (args as any)?.superseded_by === undefined
+          ? undefined
+          : asNonEmptyString((args as any).superseded_by, 'superseded_by');
+
+      const result = await taskTemplates.deleteTemplate(id, version, reason, supersededBy);
+      return { content: [{ type: 'text', text: jsonText({ ok: true, ...result }) }] };
+    }
+
+    if (name === 'task_template_undeprecate') {
+      const id = asNonEmptyString((args as any)?.id, 'id');
+      const version = (args as any)?.version;
+      if (typeof version !== 'number' || version < 1) {
+        throw new Error('task_template_undeprecate: version must be a positive integer');
+      }
+
+      const result = await taskTemplates.undeprecateTemplate(id, version);
+      return { content: [{ type: 'text', text: jsonText({ ok: true, ...result }) }] };
+    }
+
+    if (name === 'task_instance_list') {
+      const projectSlug = asNonEmptyString((args as any)?.project_slug, 'project_slug');
+      assertSafeProjectSlug(projectSlug);
+
+      const instanceIds = await taskInstances.listInstances(projectSlug);
+      return { content: [{ type: 'text', text: jsonText({ instances: instanceIds }) }] };
+    }
+
+    if (name === 'task_instance_get') {
+      const projectSlug = asNonEmptyString((args as any)?.project_slug, 'project_slug');
+      assertSafeProjectSlug(projectSlug);
+      const instanceId = asNonEmptyString((args as any)?.instance_id, 'instance_id');
+
+      const instance = await taskInstances.getInstance(projectSlug, instanceId);
+      return {
+        content: [{ type: 'text', text: jsonText({ instance, history: instance.history ?? [] }) }]
+      };
+    }
+
+    if (name === 'task_instance_generate') {
+      const projectSlug = asNonEmptyString((args as any)?.project_slug, 'project_slug');
+      assertSafeProjectSlug(projectSlug);
+      const templateId = asNonEmptyString((args as any)?.template_id, 'template_id');
+      const templateVersion = (args as any)?.template_version;
+      if (typeof templateVersion !== 'number' || templateVersion < 1) {
+        throw new Error('task_instance_generate: template_version must be a positive integer');
+      }
+
+      const inputs = (args as any)?.inputs;
+      if (!inputs || typeof inputs !== 'object' || Array.isArray(inputs)) {
+        throw new Error('task_instance_generate: inputs must be an object');
+      }
+
+      const mcdHash = asNonEmptyString((args as any)?.mcd_hash, 'mcd_hash');
+      const domainProfiles = asStringArray((args as any)?.domain_profiles, 'domain_profiles');
+
+      const instance = await taskInstances.generateInstance(
+        projectSlug,
+        templateId,
+        templateVersion,
+        inputs,
+        mcdHash,
+        domainProfiles
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonText({
+              ok: true,
+              instance_id: instance.instance_id,
+              instance
+            })
+          }
+        ]
+      };
+    }
+
+    if (name === 'task_prepare') {
+      const projectSlug = asNonEmptyString((args as any)?.project_slug, 'project_slug');
+      assertSafeProjectSlug(projectSlug);
+      const instanceId = asNonEmptyString((args as any)?.instance_id, 'instance_id');
+
+      const actor = typeof (args as any)?.actor === 'string' ? (args as any).actor : undefined;
+      const allowMcdDrift = (args as any)?.allow_mcd_drift === true;
+      const tokenBudget = parseTokenBudget((args as any)?.token_budget, 'token_budget');
+
+      const plan = await taskExecutor.prepareTask(projectSlug, instanceId, { actor, allowMcdDrift, tokenBudget });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonText({
+              ok: true,
+              plan_id: plan.plan_id,
+              plan
+            })
+          }
+        ]
+      };
+    }
+
+    if (name === 'task_execute') {
+      const planId = asNonEmptyString((args as any)?.plan_id, 'plan_id');
+
+      const actor = typeof (args as any)?.actor === 'string' ? (args as any).actor : undefined;
+      const allowMcdDrift = (args as any)?.allow_mcd_drift === true;
+
+      const result = await taskExecutor.executeTask(planId, { actor, allowMcdDrift, signal: extra.signal });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonText({
+              ok: result.ok,
+              plan: result.plan,
+              results: result.results
+            })
+          }
+        ]
+      };
+    }
+
+    if (name === 'workflow_create') {
+      const projectSlug = asNonEmptyString((args as any)?.project_slug, 'project_slug');
+      assertSafeProjectSlug(projectSlug);
+      const nodes = asWorkflowNodes((args as any)?.nodes);
+      const workflowName = typeof (args as any)?.name === 'string' ? (args as any).name : undefined;
+
+      const workflow = await workflows.create(projectSlug, nodes, { name: workflowName });
+      return {
+        content: [{ type: 'text', text: jsonText({ ok: true, workflow_id: workflow.workflow_id, workflow }) }]
+      };
+    }
+
+    if (name === 'workflow_get') {
+      const workflowId = asNonEmptyString((args as any)?.workflow_id, 'workflow_id');
+      const workflow = await workflows.getWorkflow(workflowId);
+      return { content: [{ type: 'text', text: jsonText(workflow) }] };
+    }
+
+    if (name === 'workflow_prepare') {
+      const workflowId = asNonEmptyString((args as any)?.workflow_id, 'workflow_id');
+      const actor = typeof (args as any)?.actor === 'string' ? (args as any).actor : undefined;
+      const allowMcdDrift = (args as any)?.allow_mcd_drift === true;
+      const tokenBudget = parseTokenBudget((args as any)?.token_budget, 'token_budget');
+
+      const workflow = await workflows.prepare(workflowId, { actor, allowMcdDrift, tokenBudget });
+      return { content: [{ type: 'text', text: jsonText({ ok: true, workflow }) }] };
+    }
+
+    if (name === 'workflow_execute') {
+      const workflowId = asNonEmptyString((args as any)?.workflow_id, 'workflow_id');
+      const actor = typeof (args as any)?.actor === 'string' ? (args as any).actor : undefined;
+      const allowMcdDrift = (args as any)?.allow_mcd_drift === true;
+
+      const result = await workflows.execute(workflowId, { actor, allowMcdDrift, signal: extra.signal });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonText({ ok: result.ok, workflow: result.workflow, results: result.results })
+          }
+        ]
+      };
+    }
+
+    if (name === 'plan_decompose') {
+      const goal = asNonEmptyString((args as any)?.goal, 'goal');
+      const projectSlug = asNonEmptyString((args as any)?.project_slug, 'project_slug');
+      assertSafeProjectSlug(projectSlug);
+      const model = typeof (args as any)?.model === 'string' ? (args as any).model : undefined;
+      const temperature = typeof (args as any)?.temperature === 'number' ? (args as any).temperature : undefined;
+      const maxRepairs = parseMaxRepairs((args as any)?.max_repairs, 'max_repairs');
+
+      return withStructuredOutputResult(async () => {
+        const proposal = await planDecomposer.decompose(goal, projectSlug, {
+          model,
+          temperature,
+          maxRepairs,
+          signal: extra.signal
+        });
+        return { content: [{ type: 'text', text: jsonText({ ok: true, proposal_id: proposal.proposal_id, proposal }) }] };
+      });
+    }
+
+    if (name === 'plan_proposal_get') {
+      const proposalId = asNonEmptyString((args as any)?.proposal_id, 'proposal_id');
+      const proposal = await planDecomposer.getProposal(proposalId);
+      return { content: [{ type: 'text', text: jsonText(proposal) }] };
+    }
+
+    if (name === 'plan_apply') {
+      const proposalId = asNonEmptyString((args as any)?.proposal_id, 'proposal_id');
+      const rawIndexes = (args as any)?.indexes;
+      if (rawIndexes !== undefined && (!Array.isArray(rawIndexes) || !rawIndexes.every(Number.isInteger))) {
+        throw new Error('indexes must be an array of integers');
+      }
+
+      const result = await planDecomposer.apply(proposalId, { indexes: rawIndexes });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: jsonText({
+              ok: true,
+              proposal_id: proposalId,
+              instance_ids: result.proposal.instance_ids,
+              instances: result.instances
+            })
+          }
+        ]
+      };
+    }
+
+    throw new Error(`Unknown tool: ${name}`);
+  });
+
+  return server;
+}
@@ -0,0 +1,200 @@
+/**
+ * `when` expressions for task template steps, evaluated against instance inputs at prepare time.
+ *
+ * Grammar (no code execution; only input lookups and comparisons):
+ *   expr    := or
+ *   or      := and ('||' and)*
+ *   and     := unary ('&&' unary)*
+ *   unary   := '!' unary | compare
+ *   compare := operand (('==' | '!=') operand)?
+ *   operand := input path (`requires_auth`, `options.auth.enabled`) | 'string' | "string"
+ *            | number | true | false | null | '(' expr ')'
+ *
+ * An input that is not set is `undefined`. Truthiness follows JavaScript, except that an empty
+ * array is false, so `request_body_schema` reads as "request_body_schema provided".
+ */
+
+export type Condition =
+  | { kind: 'input'; path: string[] }
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'not'; operand: Condition }
+  | { kind: 'and' | 'or'; left: Condition; right: Condition }
+  | { kind: 'eq' | 'ne'; left: Condition; right: Condition };
+
+type Token =
+  | { type: 'ident'; value: string }
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'op'; value: '&&' | '||' | '!' | '==' | '!=' | '(' | ')' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    const two = source.slice(i, i + 2);
+    if (two === '&&' || two === '||' || two === '==' || two === '!=') {
+      tokens.push({ type: 'op', value: two });
+      i += 2;
+      continue;
+    }
+    if (c === '!' || c === '(' || c === ')') {
+      tokens.push({ type: 'op', value: c });
+      i++;
+      continue;
+    }
+    if (c === "'" || c === '"') {
+      const end = source.indexOf(c, i + 1);
+      if (end < 0) throw new Error(`unterminated string at position ${i}`);
+      tokens.push({ type: 'string', value: source.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+    const number = source.slice(i).match(/^-?\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+    const ident = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*/);
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0] });
+      i += ident[0].length;
+      continue;
+    }
+    throw new Error(`unexpected '${c}' at position ${i}`);
+  }
+  return tokens;
+}
+
+/**
+ * Parse a `when` expression. Throws with the position of the first problem.
+ */
+export function parseCondition(source: string): Condition {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peekOp = (value: string) => tokens[pos]?.type === 'op' && tokens[pos].value === value;
+
+  const parseOr = (): Condition => {
+    let left = parseAnd();
+    while (peekOp('||')) {
+      pos++;
+      left = { kind: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): Condition => {
+    let left = parseUnary();
+    while (peekOp('&&')) {
+      pos++;
+      left = { kind: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Condition => {
+    if (peekOp('!')) {
+      pos++;
+      return { kind: 'not', operand: parseUnary() };
+    }
+    const left = parseOperand();
+    if (peekOp('==') || peekOp('!=')) {
+      const kind = tokens[pos].value === '==' ? 'eq' : 'ne';
+      pos++;
+      return { kind, left, right: parseOperand() };
+    }
+    return left;
+  };
+
+  const parseOperand = (): Condition => {
+    const token = tokens[pos++];
+    if (!token) throw new Error('unexpected end of expression');
+    if (token.type === 'string' || token.type === 'number') return { kind: 'literal', value: token.value };
+    if (token.type === 'ident') {
+      if (token.value === 'true') return { kind: 'literal', value: true };
+      if (token.value === 'false') return { kind: 'literal', value: false };
+      if (token.value === 'null') return { kind: 'literal', value: null };
+      return { kind: 'input', path: token.value.split('.') };
+    }
+    if (token.value === '(') {
+      const inner = parseOr();
+      if (!peekOp(')')) throw new Error("expected ')'");
+      pos++;
+      return inner;
+    }
+    throw new Error(`unexpected '${token.value}'`);
+  };
+
+  if (tokens.length === 0) throw new Error('empty expression');
+  const condition = parseOr();
+  if (pos < tokens.length) {
+    const extra = tokens[pos];
+    throw new Error(`unexpected '${extra.type === 'string' ? `'${extra.value}'` : extra.value}'`);
+  }
+  return condition;
+}
+
+/**
+ * Top-level input names a condition reads (`options` for `options.auth.enabled`).
+ */
+export function conditionInputs(condition: Condition): string[] {
+  const out = new Set<string>();
+  const walk = (c: Condition) => {
+    if (c.kind === 'input') out.add(c.path[0]);
+    else if (c.kind === 'not') walk(c.operand);
+    else if (c.kind !== 'literal') {
+      walk(c.left);
+      walk(c.right);
+    }
+  };
+  walk(condition);
+  return [...out];
+}
+
+function valueOf(condition: Condition, inputs: Record<string, unknown>): unknown {
+  switch (condition.kind) {
+    case 'literal':
+      return condition.value;
+    case 'input': {
+      let current: unknown = inputs;
+      for (const segment of condition.path) {
+        if (typeof current !== 'object' || current === null || !Object.hasOwn(current, segment)) return undefined;
+        current = (current as Record<string, unknown>)[segment];
+      }
+      return current;
+    }
+    default:
+      return evaluateCondition(condition, inputs);
+  }
+}
+
+function truthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+export function evaluateCondition(condition: Condition, inputs: Record<string, unknown>): boolean {
+  switch (condition.kind) {
+    case 'not':
+      return !evaluateCondition(condition.operand, inputs);
+    case 'and':
+      return evaluateCondition(condition.left, inputs) && evaluateCondition(condition.right, inputs);
+    case 'or':
+      return evaluateCondition(condition.left, inputs) || evaluateCondition(condition.right, inputs);
+    case 'eq':
+    case 'ne': {
+      // Unset inputs compare equal to null.
+      const left = valueOf(condition.left, inputs) ?? null;
+      const right = valueOf(condition.right, inputs) ?? null;
+      return (left === right) === (condition.kind === 'eq');
+    }
+    default:
+      return truthy(valueOf(condition, inputs));
+  }
+}
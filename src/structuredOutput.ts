@@ -0,0 +1,153 @@
+import type { ValidateFunction } from 'ajv';
+
+import { compileValidator, createAjv, formatAjvErrors, type JsonSchema } from './schema.js';
+import type { ChatMessage, ChatOptions, ChatResponse } from './llmProvider.js';
+
+const DEFAULT_MAX_REPAIRS = 2;
+const MAX_REPAIRS_LIMIT = 10;
+
+/**
+ * Parse a model reply as JSON. Accepts a bare JSON value or one wrapped in a ```json fence.
+ * Returns undefined when the reply is not JSON.
+ */
+export function parseJsonReply(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse a `max_repairs` tool argument: an integer from 0 to 10, or undefined when not given.
+ */
+export function parseMaxRepairs(value: unknown, label: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof n !== 'number' || !Number.isInteger(n) || n < 0 || n > MAX_REPAIRS_LIMIT) {
+    throw new Error(`${label} must be an integer from 0 to ${MAX_REPAIRS_LIMIT}`);
+  }
+  return n;
+}
+
+/**
+ * Default number of re-prompts after an invalid reply (WARPOS_JSON_MAX_REPAIRS, default 2).
+ */
+export function maxRepairsFromEnv(): number {
+  return parseMaxRepairs(process.env.WARPOS_JSON_MAX_REPAIRS, 'WARPOS_JSON_MAX_REPAIRS') ?? DEFAULT_MAX_REPAIRS;
+}
+
+/**
+ * Compile a caller-supplied response schema, failing before any model call when it is not a
+ * usable JSON Schema.
+ */
+export function compileResponseSchema(schema: unknown, label = 'response_schema'): ValidateFunction {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    throw new Error(`${label} must be a JSON Schema object`);
+  }
+  return compileValidator(createAjv(), schema as JsonSchema, label);
+}
+
+/**
+ * Thrown when no reply conformed to the response schema within the allowed attempts.
+ * Carries the validation errors and the last reply so the caller can show what went wrong.
+ */
+export class StructuredOutputError extends Error {
+  readonly attempts: number;
+  readonly validationErrors: string[];
+  readonly lastReply: string;
+
+  constructor(message: string, details: { attempts: number; validationErrors: string[]; lastReply: string }) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.attempts = details.attempts;
+    this.validationErrors = details.validationErrors;
+    this.lastReply = details.lastReply;
+  }
+}
+
+export type StructuredChatOptions = Omit<ChatOptions, 'responseFormat'> & {
+  /** Re-prompts after an invalid reply. Defaults to WARPOS_JSON_MAX_REPAIRS, or 2. */
+  maxRepairs?: number;
+  /**
+   * Checks a schema-valid value further (e.g. against data the schema cannot express). Returned
+   * errors are treated like schema errors: the model is re-prompted with them.
+   */
+  check?: (value: unknown) => string[] | Promise<string[]>;
+};
+
+export type StructuredChatResult = {
+  value: unknown;
+  /** The raw reply the value was parsed from. */
+  text: string;
+  /** Model calls made, including the first. */
+  attempts: number;
+};
+
+function schemaInstruction(schema: JsonSchema): string {
+  return [
+    'Respond with a single JSON value that conforms to this JSON Schema, and nothing else (no prose, no code fence):',
+    JSON.stringify(schema)
+  ].join('\n');
+}
+
+/**
+ * Ask the model for JSON conforming to `schema`. The schema is appended to the system message
+ * (or sent as one), and JSON mode is requested from the backend when the schema describes an
+ * object. A reply that is not JSON or fails validation (or `check`) is sent back with the errors, up to
+ * `maxRepairs` times; after that a StructuredOutputError is thrown.
+ */
+export async function chatForJson(
+  chat: (messages: ChatMessage[], options: ChatOptions) => Promise<ChatResponse>,
+  messages: ChatMessage[],
+  schema: JsonSchema,
+  options: StructuredChatOptions = {}
+): Promise<StructuredChatResult> {
+  const validate = compileResponseSchema(schema);
+  const { maxRepairs = maxRepairsFromEnv(), check, ...chatOptions } = options;
+
+  const instruction = schemaInstruction(schema);
+  const conversation: ChatMessage[] =
+    messages[0]?.role === 'system'
+      ? [{ role: 'system', content: `${messages[0].content}\n\n${instruction}` }, ...messages.slice(1)]
+      : [{ role: 'system', content: instruction }, ...messages];
+  // JSON mode (`response_format: json_object`) only allows an object at the top level.
+  const responseFormat = schema.type === 'object' ? 'json' : undefined;
+
+  let errors: string[] = [];
+  let text = '';
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const out = await chat(conversation, { ...chatOptions, responseFormat });
+    text = out.text;
+
+    const value = parseJsonReply(text);
+    if (value === undefined) {
+      errors = ['reply is not valid JSON'];
+    } else if (!validate(value)) {
+      errors = (validate.errors ?? []).map((e) => formatAjvErrors([e]));
+    } else {
+      errors = check ? await check(value) : [];
+      if (errors.length === 0) return { value, text, attempts: attempt };
+    }
+
+    conversation.push(
+      { role: 'assistant', content: text },
+      {
+        role: 'user',
+        content: [
+          'Your reply did not conform to the JSON Schema:',
+          ...errors.map((e) => `- ${e}`),
+          'Reply again with only the corrected JSON.'
+        ].join('\n')
+      }
+    );
+  }
+
+  const attempts = maxRepairs + 1;
+  throw new StructuredOutputError(
+    `Model reply did not conform to response_schema after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${errors.join('; ')}`,
+    { attempts, validationErrors: errors, lastReply: text }
+  );
+}
@@ -3,9 +3,50 @@ import * as path from 'node:path';
 import { randomUUID } from 'node:crypto';
 import YAML from 'yaml';
 
-import { TaskInstanceStore } from './instanceStore.js';
-import { TaskTemplateStore } from './templateStore.js';
-import { DomainProfileStore } from './profileStore.js';
+import { TaskInstanceStore, type TaskInstance } from './instanceStore.js';
+import { TaskTemplateStore, templateDeprecationNotice, templateVariables, type TaskTemplate } from './templateStore.js';
+import { DomainProfileStore, profileDeprecationWarnings, type ResolvedProfile } from './profileStore.js';
+import { McdStore } from './mcdStore.js';
+import { sha256 } from './concurrency.js';
+import { validateSchema } from './schema.js';
+import { diffStat } from './textDiff.js';
+import { selectSections } from './mcdSections.js';
+import { parseJsonReply } from './structuredOutput.js';
+import { conditionInputs, evaluateCondition, parseCondition } from './stepConditions.js';
+import { quoteShellArg, renderTemplate, resolveVariables, type RenderOptions } from './templateEngine.js';
+import { commandSafetyIssues } from './commandSafety.js';
+import { VerificationRunner, type VerificationResult } from './verificationRunner.js';
+import {
+  FRAMEWORK_PREAMBLE,
+  estimateTokens,
+  fitFrameworkToBudget,
+  type PromptBudgetReport
+} from './promptAssembler.js';
+import type { ChatMessage, ChatOptions, ChatResponse } from './llmProvider.js';
+import { createDefaultProviderRegistry } from './providers.js';
+
+/**
+ * Chat function used to run plan steps. Defaults to the built-in provider registry (so `model`
+ * may be `provider:model`); injectable for tests.
+ */
+export type StepChat = (
+  messages: ChatMessage[],
+  options?: ChatOptions
+) => Promise<ChatResponse>;
+
+/**
+ * Outcome of running a single plan step against the model.
+ */
+export type StepResult = {
+  id: string;
+  status: 'completed' | 'failed';
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  output?: string;
+  response?: unknown;
+  error?: string;
+};
 
 /**
  * An Execution Plan is the declarative, inspectable output of prepare().
@@ -22,14 +63,138 @@ export type ExecutionPlan = {
     id: string;
     instruction: string;
   }>;
+  /** Template steps left out of the plan by their `when` condition or a skipped dependency. */
+  skipped_steps?: Array<{
+    id: string;
+    reason: string;
+  }>;
   verification: Array<{
     id: string;
     command: string;
   }>;
   domain_framework?: string;
-  status: 'pending' | 'executing' | 'completed' | 'failed';
+  /** Present when a token budget applied; lists observation groups trimmed from domain_framework. */
+  prompt_budget?: PromptBudgetReport;
+  outputs_schema?: Record<string, unknown>;
+  mcd_hash?: string;
+  mcd_drift?: McdDrift;
+  /** MCD slices selected by the template's mcd_selectors; used instead of the full MCD. */
+  mcd_context?: {
+    selectors: string[];
+    sections: string[];
+    markdown: string;
+  };
+  /** Deprecation notices for the template or domain profiles the plan was prepared with. */
+  warnings?: string[];
+  /** Inputs left as placeholders at prepare time; execute() needs values for them. */
+  deferred_inputs?: string[];
+  /** Values substituted for deferred_inputs when the plan was executed. */
+  bound_inputs?: Record<string, unknown>;
+  /** Verification commands that failed the safety check; the plan is then `rejected`. */
+  command_issues?: Array<{
+    id: string;
+    command: string;
+    issues: string[];
+  }>;
+  status: 'pending' | 'rejected' | 'executing' | 'completed' | 'failed';
+  started_at?: string;
+  finished_at?: string;
+  step_results?: StepResult[];
+  verification_results?: VerificationResult[];
+  outputs?: Record<string, unknown>;
+  output_errors?: string[];
+  error?: string;
 };
 
+/**
+ * Describes a mismatch between the MCD an instance was locked to and the project's current MCD.
+ */
+export type McdDrift = {
+  project_slug: string;
+  locked_sha256: string;
+  /** Null when the project no longer has an MCD. */
+  current_sha256: string | null;
+  current_updated_at?: string;
+  /** Line counts from the locked snapshot to the current MCD, when the snapshot is in history. */
+  changes?: { added: number; removed: number };
+  detected_at: string;
+  overridden: boolean;
+};
+
+export type PrepareOptions = {
+  actor?: string;
+  /** Prepare even if the project MCD changed since the instance was generated. */
+  allowMcdDrift?: boolean;
+  /** Overrides TaskExecutorOptions.tokenBudget for this plan. */
+  tokenBudget?: number;
+  /**
+   * Inputs supplied at execute time (e.g. bound to another instance's outputs in a workflow). Their
+   * `{placeholders}` are left in the plan and filled in by execute().
+   */
+  deferredInputs?: string[];
+};
+
+export type ExecuteOptions = {
+  actor?: string;
+  /** Execute even if the project MCD changed since the plan was prepared. */
+  allowMcdDrift?: boolean;
+  /** Cancels the in-flight step or verification command; it and the plan are then recorded as failed. */
+  signal?: AbortSignal;
+  /** Values for the plan's deferred_inputs; required when the plan has any. */
+  boundInputs?: Record<string, unknown>;
+};
+
+export type TaskExecutorOptions = {
+  mcdStore?: McdStore;
+  chat?: StepChat;
+  verifier?: VerificationRunner;
+  model?: string;
+  temperature?: number;
+  /** Estimated prompt tokens per step; the domain framework is trimmed at prepare time to fit. */
+  tokenBudget?: number;
+};
+
+const DEFAULT_ACTOR = 'warpos';
+
+const STEP_PROTOCOL =
+  'You are executing one step of a prepared task plan. Perform the step and reply with a single JSON object ' +
+  '(no prose around it) of the form {"summary": string, "outputs": object}. ' +
+  '`outputs` holds any named artifacts this step produced (file paths, snippets, commands).';
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+/**
+ * Merge the `outputs` object of every step response into a single task outputs object.
+ * Later steps win when they report the same key.
+ */
+function collectOutputs(stepResults: StepResult[]): Record<string, unknown> {
+  const outputs: Record<string, unknown> = {};
+  for (const r of stepResults) {
+    if (isRecord(r.response) && isRecord(r.response.outputs)) {
+      Object.assign(outputs, r.response.outputs);
+    }
+  }
+  return outputs;
+}
+
+function describeDrift(drift: McdDrift): string {
+  const locked = drift.locked_sha256.slice(0, 12);
+  if (drift.current_sha256 === null) {
+    return `instance is locked to MCD ${locked} but project '${drift.project_slug}' has no MCD`;
+  }
+  const updated = drift.current_updated_at ? ` (updated ${drift.current_updated_at})` : '';
+  const changes = drift.changes ? `; +${drift.changes.added}/-${drift.changes.removed} lines, see mcd_diff` : '';
+  return `instance is locked to MCD ${locked} but the current MCD is ${drift.current_sha256.slice(0, 12)}${updated}${changes}`;
+}
+
+/**
+ * Plans currently running in this process. An instance left `executing` whose plan is not in
+ * here was interrupted (the process that ran it is gone) and may be recovered by re-preparing.
+ */
+const runningPlans = new Set<string>();
+
 /**
  * TaskExecutor implements the two-phase execution pattern:
  * - prepare(): Generate declarative execution plan (safe, inspectable)
@@ -40,83 +205,164 @@ export class TaskExecutor {
   private readonly templateStore: TaskTemplateStore;
   private readonly profileStore: DomainProfileStore;
   private readonly plansDir: string;
+  private readonly mcdStore: McdStore;
+  private readonly chat: StepChat;
+  private readonly verifier: VerificationRunner;
+  private readonly model?: string;
+  private readonly temperature: number;
+  private readonly tokenBudget?: number;
 
   constructor(
     instanceStore: TaskInstanceStore,
     templateStore: TaskTemplateStore,
     profileStore: DomainProfileStore,
-    plansDir: string
+    plansDir: string,
+    options: TaskExecutorOptions = {}
   ) {
     this.instanceStore = instanceStore;
     this.templateStore = templateStore;
     this.profileStore = profileStore;
     this.plansDir = plansDir;
+    this.mcdStore = options.mcdStore ?? new McdStore();
+    if (options.chat) {
+      this.chat = options.chat;
+    } else {
+      const providers = createDefaultProviderRegistry();
+      this.chat = (messages, chatOptions) => providers.chat(messages, chatOptions);
+    }
+    this.verifier = options.verifier ?? new VerificationRunner();
+    this.model = options.model;
+    // Execution should be as deterministic as the model allows.
+    this.temperature = options.temperature ?? 0;
+    this.tokenBudget = options.tokenBudget;
   }
 
   /**
-   * Substitute variables in template strings with values from inputs.
-   * Variables are in the format {variable_name}.
-   * Complex values (objects/arrays) are converted to JSON strings.
+   * Render the placeholders of plan steps and verification commands (see templateEngine.ts).
+   * Values substituted into commands are shell-quoted unless the placeholder already uses
+   * `shellQuote`. Throws when any placeholder stays unresolved, so no plan carries a
+   * `{placeholder}` to the model or the shell.
    */
-  private substituteVariables(template: string, inputs: Record<string, unknown>): string {
-    let result = template;
-
-    // Also derive common convenience variables
-    const derivedVars: Record<string, string> = {
-      ...this.deriveConvenienceVariables(inputs)
+  private renderPlanText(
+    label: string,
+    text: Pick<ExecutionPlan, 'steps' | 'verification'>,
+    scope: Record<string, unknown>,
+    options: RenderOptions
+  ): Pick<ExecutionPlan, 'steps' | 'verification'> {
+    const unresolved: string[] = [];
+    const render = (where: string, source: string, renderOptions: RenderOptions) => {
+      const out = renderTemplate(source, scope, renderOptions);
+      for (const placeholder of out.unresolved) unresolved.push(`${where} ${placeholder}`);
+      return out.text;
     };
 
-    const allVars = { ...inputs, ...derivedVars };
-
-    for (const [key, value] of Object.entries(allVars)) {
-      const placeholder = `{${key}}`;
-      let replacement: string;
-
-      if (typeof value === 'string') {
-        replacement = value;
-      } else if (typeof value === 'number' || typeof value === 'boolean') {
-        replacement = String(value);
-      } else if (value === null || value === undefined) {
-        replacement = '';
-      } else {
-        // Complex types (objects, arrays) - convert to JSON
-        replacement = JSON.stringify(value, null, 2);
-      }
-
-      result = result.replaceAll(placeholder, replacement);
+    const shellOptions: RenderOptions = {
+      ...options,
+      escape: (value, expression) =>
+        expression.filters.some((f) => f.name === 'shellQuote') ? value : quoteShellArg(value)
+    };
+    const rendered = {
+      steps: text.steps.map((s) => ({ ...s, instruction: render(`step ${s.id}`, s.instruction, options) })),
+      verification: text.verification.map((v) => ({
+        ...v,
+        command: render(`verification ${v.id}`, v.command, shellOptions)
+      }))
+    };
+    if (unresolved.length > 0) {
+      throw new Error(`${label} has unresolved placeholders: ${unresolved.join(', ')}`);
     }
+    return rendered;
+  }
 
-    return result;
+  /**
+   * Run the static safety check on the plan's verification commands. A plan with unsafe commands
+   * is stored as `rejected`, with the issues per command, and an error is thrown.
+   */
+  private async rejectUnsafeCommands(plan: ExecutionPlan, planPath: string): Promise<void> {
+    const issues = plan.verification
+      .map((v) => ({ id: v.id, command: v.command, issues: commandSafetyIssues(v.command) }))
+      .filter((v) => v.issues.length > 0);
+    if (issues.length === 0) return;
+
+    plan.status = 'rejected';
+    plan.command_issues = issues;
+    plan.error = `Verification commands failed the safety check: ${issues
+      .map((v) => `${v.id}: ${v.issues.join(', ')}`)
+      .join('; ')}`;
+    await writeFile(planPath, YAML.stringify(plan), 'utf8');
+    throw new Error(`Plan ${plan.plan_id} rejected. ${plan.error}`);
   }
 
   /**
-   * Derive convenience variables from inputs.
-   * Example: endpoint_path="/api/todos" → resource="todos"
+   * Decide which template steps apply to these inputs. A step is skipped when its `when`
+   * condition is false or when a step it depends_on was skipped. Conditions are evaluated now, so
+   * one that reads a deferred input (not known until execute) is rejected.
    */
-  private deriveConvenienceVariables(inputs: Record<string, unknown>): Record<string, string> {
-    const derived: Record<string, string> = {};
-
-    // Extract resource name from endpoint_path
-    if (typeof inputs.endpoint_path === 'string') {
-      const path = inputs.endpoint_path;
-      // Extract last meaningful segment: /api/todos → todos, /users/:id → users
-      // Match all segments, then take the last one that doesn't contain : or ?
-      const segments = path.split('/').filter(s => s && !s.includes(':') && !s.includes('?'));
-      if (segments.length > 0) {
-        derived.resource = segments[segments.length - 1];
+  private selectSteps(
+    template: TaskTemplate,
+    inputs: Record<string, unknown>,
+    deferred: readonly string[]
+  ): { steps: TaskTemplate['steps']; skipped: NonNullable<ExecutionPlan['skipped_steps']> } {
+    const steps: TaskTemplate['steps'] = [];
+    const skipped: NonNullable<ExecutionPlan['skipped_steps']> = [];
+    const skippedIds = new Set<string>();
+
+    for (const step of template.steps) {
+      const condition = step.when === undefined ? undefined : parseCondition(step.when);
+      const deferredReads = condition ? conditionInputs(condition).filter((name) => deferred.includes(name)) : [];
+      if (deferredReads.length > 0) {
+        throw new Error(
+          `Template ${template.id}@${template.version}: step ${step.id} has \`when: ${step.when}\`, which reads ` +
+            `deferred input(s) ${deferredReads.join(', ')}; step conditions are evaluated at prepare time`
+        );
+      }
+
+      const skippedDep = (step.depends_on ?? []).find((dep) => skippedIds.has(dep));
+      let reason: string | undefined;
+      if (skippedDep) {
+        reason = `depends on skipped step ${skippedDep}`;
+      } else if (condition && !evaluateCondition(condition, inputs)) {
+        reason = `when \`${step.when}\` is false`;
+      }
+
+      if (reason) {
+        skipped.push({ id: step.id, reason });
+        skippedIds.add(step.id);
+      } else {
+        steps.push(step);
       }
     }
 
-    return derived;
+    return { steps, skipped };
   }
 
   /**
    * Prepare: Generate a declarative execution plan from a task instance.
    * This is safe to run - no side effects, just creates a plan file.
    */
-  async prepareTask(projectSlug: string, instanceId: string): Promise<ExecutionPlan> {
-    // Load the task instance
-    const instance = await this.instanceStore.getInstance(projectSlug, instanceId);
+  async prepareTask(
+    projectSlug: string,
+    instanceId: string,
+    options: PrepareOptions = {}
+  ): Promise<ExecutionPlan> {
+    // Load the task instance and make sure it may (re-)enter `prepared`.
+    let instance = await this.instanceStore.getInstance(projectSlug, instanceId);
+    if (instance.status === 'executing') {
+      instance = await this.recoverStaleExecution(instance, options.actor ?? DEFAULT_ACTOR);
+    }
+    this.instanceStore.assertTransition(instance, 'prepared');
+
+    // Refuse to plan against an MCD other than the one the instance was locked to.
+    const drift = await this.detectMcdDrift(projectSlug, instance.mcd_hash);
+    if (drift) {
+      if (!options.allowMcdDrift) {
+        throw new Error(
+          `MCD drift detected: ${describeDrift(drift)}. ` +
+            'Generate a new instance against the current MCD, or pass allow_mcd_drift to override.'
+        );
+      }
+      drift.overridden = true;
+    }
 
     // Load the template
     const template = await this.templateStore.loadTemplate(
@@ -124,13 +370,45 @@ export class TaskExecutor {
       instance.template_version
     );
 
-    // Compile domain framework if domain profiles specified
-    let domainFramework: string | undefined;
+    // Resolve domain profiles; the framework is compiled once the rest of the prompt is known.
+    let resolved: ResolvedProfile[] = [];
     if (instance.domain_profiles && instance.domain_profiles.length > 0) {
-      const resolved = await this.profileStore.resolveProfiles(instance.domain_profiles);
-      domainFramework = this.profileStore.compileFrameworkPrompt(resolved);
+      resolved = await this.profileStore.resolveProfiles(instance.domain_profiles);
+    }
+
+    // Embed only the MCD slices the template asks for.
+    let mcdContext: ExecutionPlan['mcd_context'];
+    if (template.mcd_selectors && template.mcd_selectors.length > 0) {
+      const doc = await this.mcdStore.sections(projectSlug).catch((err: unknown) => {
+        if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') {
+          throw new Error(
+            `Template ${template.id}@${template.version} has mcd_selectors but project '${projectSlug}' has no MCD`
+          );
+        }
+        throw err;
+      });
+      const selected = selectSections(doc, template.mcd_selectors);
+      mcdContext = {
+        selectors: [...template.mcd_selectors],
+        sections: selected.map((s) => s.selector),
+        markdown: selected.map((s) => s.markdown).join('\n\n')
+      };
     }
 
+    // Deferred inputs, and variables derived from them, keep their placeholders until execute() binds them.
+    const deferred = [...new Set(options.deferredInputs ?? [])];
+    const { steps, skipped } = this.selectSteps(template, instance.inputs, deferred);
+    const variables = resolveVariables(templateVariables(template), instance.inputs, deferred);
+    const text = this.renderPlanText(
+      `Template ${template.id}@${template.version}`,
+      {
+        steps: steps.map((step) => ({ id: step.id, instruction: step.instruction })),
+        verification: (template.verification || []).map((v) => ({ id: v.id, command: v.command }))
+      },
+      variables.scope,
+      { defer: variables.deferred }
+    );
+
     // Create execution plan with variable substitution
     const plan: ExecutionPlan = {
       plan_id: randomUUID(),
@@ -139,31 +417,256 @@ export class TaskExecutor {
       template_id: instance.template_id,
       template_version: instance.template_version,
       created_at: new Date().toISOString(),
-      steps: template.steps.map((step) => ({
-        id: step.id,
-        instruction: this.substituteVariables(step.instruction, instance.inputs)
-      })),
-      verification: (template.verification || []).map((v) => ({
-        id: v.id,
-        command: this.substituteVariables(v.command, instance.inputs)
-      })),
-      domain_framework: domainFramework,
+      steps: text.steps,
+      skipped_steps: skipped.length > 0 ? skipped : undefined,
+      verification: text.verification,
+      // Filled in below, once the rest of the step prompt is known.
+      domain_framework: undefined,
+      prompt_budget: undefined,
+      outputs_schema: template.outputs_schema,
+      mcd_hash: instance.mcd_hash,
+      mcd_drift: drift,
+      mcd_context: mcdContext,
+      deferred_inputs: deferred.length > 0 ? deferred : undefined,
       status: 'pending'
     };
 
+    const warnings = [templateDeprecationNotice(template), ...profileDeprecationWarnings(resolved)].filter(
+      (w): w is string => w !== undefined
+    );
+    if (warnings.length > 0) plan.warnings = warnings;
+
+    if (resolved.length > 0) {
+      const compile = (profiles: ResolvedProfile[]) => this.profileStore.compileFrameworkPrompt(profiles);
+      const budget = options.tokenBudget ?? this.tokenBudget;
+      if (budget === undefined) {
+        plan.domain_framework = compile(resolved);
+      } else {
+        const fitted = fitFrameworkToBudget(resolved, {
+          budget,
+          reservedTokens: await this.estimateReservedTokens(plan),
+          compile
+        });
+        plan.domain_framework = fitted.framework;
+        plan.prompt_budget = fitted.report;
+      }
+    }
+
     // Write plan to .warpos/plans/
     await mkdir(this.plansDir, { recursive: true });
     const planPath = path.join(this.plansDir, `${plan.plan_id}.yaml`);
+    await this.rejectUnsafeCommands(plan, planPath);
     await writeFile(planPath, YAML.stringify(plan), 'utf8');
 
+    await this.instanceStore.transition(projectSlug, instanceId, 'prepared', {
+      actor: options.actor ?? DEFAULT_ACTOR,
+      plan_id: plan.plan_id,
+      note: drift ? `MCD drift overridden: ${describeDrift(drift)}` : undefined
+    });
+
     return plan;
   }
 
+  /**
+   * Fail an instance left `executing` by an interrupted run so it can be prepared again. Refused
+   * while its plan is still running in this process.
+   */
+  private async recoverStaleExecution(instance: TaskInstance, actor: string): Promise<TaskInstance> {
+    const planId = this.instanceStore.currentPlanId(instance);
+    if (planId && runningPlans.has(planId)) {
+      throw new Error(`Task instance '${instance.instance_id}' is executing plan ${planId}; wait for it to finish`);
+    }
+
+    const note = `Execution of plan ${planId ?? '(unknown)'} was interrupted`;
+    if (planId) {
+      const planPath = path.join(this.plansDir, `${planId}.yaml`);
+      const plan = await this.getPlan(planId).catch(() => undefined);
+      if (plan?.status === 'executing') {
+        plan.status = 'failed';
+        plan.error = note;
+        plan.finished_at = new Date().toISOString();
+        await writeFile(planPath, YAML.stringify(plan), 'utf8');
+      }
+    }
+
+    return this.instanceStore.transition(instance.project_slug, instance.instance_id, 'failed', {
+      actor,
+      plan_id: planId,
+      note
+    });
+  }
+
+  /**
+   * Estimate the largest step prompt without the domain framework: the step protocol, the MCD
+   * (selected sections or the whole document) and the step's own message. Summaries of earlier
+   * steps are only known at execution time and are not counted.
+   */
+  private async estimateReservedTokens(plan: ExecutionPlan): Promise<number> {
+    const mcdMarkdown = plan.mcd_context
+      ? plan.mcd_context.markdown
+      : await this.loadMcdMarkdown(plan.project_slug);
+    const bare = { ...plan, domain_framework: undefined };
+    let max = 0;
+    for (const step of plan.steps) {
+      const messages = this.buildStepMessages(bare, step, mcdMarkdown, []);
+      const tokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+      max = Math.max(max, tokens);
+    }
+    return max + estimateTokens(FRAMEWORK_PREAMBLE);
+  }
+
+  /**
+   * Compare the MCD hash an instance was locked to with the project's current MCD.
+   * The current hash is computed from the markdown itself so edits made outside
+   * `mcd_put` (e.g. directly in Warp) are detected too. Returns undefined when they match.
+   */
+  private async detectMcdDrift(projectSlug: string, lockedHash: string): Promise<McdDrift | undefined> {
+    let current: { sha256: string; updated_at: string; markdown: string } | null;
+    try {
+      const { markdown, meta } = await this.mcdStore.get(projectSlug);
+      current = { sha256: sha256(markdown), updated_at: meta.updated_at, markdown };
+    } catch (err: unknown) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') {
+        current = null;
+      } else {
+        throw err;
+      }
+    }
+
+    if (current && current.sha256 === lockedHash) return undefined;
+
+    const drift: McdDrift = {
+      project_slug: projectSlug,
+      locked_sha256: lockedHash,
+      current_sha256: current ? current.sha256 : null,
+      detected_at: new Date().toISOString(),
+      overridden: false
+    };
+    if (current) {
+      drift.current_updated_at = current.updated_at;
+      try {
+        const locked = await this.mcdStore.getVersion(projectSlug, lockedHash);
+        drift.changes = diffStat(locked.markdown, current.markdown);
+      } catch {
+        // The locked version predates MCD history; hashes are all we can report.
+      }
+    }
+    return drift;
+  }
+
+  /**
+   * Load the project MCD markdown, or undefined when the project has no MCD.
+   */
+  private async loadMcdMarkdown(projectSlug: string): Promise<string | undefined> {
+    try {
+      const { markdown } = await this.mcdStore.get(projectSlug);
+      return markdown;
+    } catch (err: unknown) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Build the chat messages for a single step: framework + MCD as system context,
+   * the step instruction (plus summaries of earlier steps) as the user message.
+   */
+  private buildStepMessages(
+    plan: ExecutionPlan,
+    step: ExecutionPlan['steps'][number],
+    mcdMarkdown: string | undefined,
+    previous: StepResult[]
+  ): ChatMessage[] {
+    const system: string[] = [STEP_PROTOCOL];
+    if (plan.domain_framework) {
+      system.push(FRAMEWORK_PREAMBLE + plan.domain_framework);
+    }
+    if (mcdMarkdown) {
+      const scope = plan.mcd_context ? `, selected sections: ${plan.mcd_context.sections.join(', ')}` : '';
+      system.push(`# Project MCD (${plan.project_slug}${scope})\n\n${mcdMarkdown}`);
+    }
+
+    const user: string[] = [
+      `Task: ${plan.template_id}@${plan.template_version}`,
+      `Step: ${step.id}`,
+      '',
+      step.instruction
+    ];
+    if (plan.outputs_schema) {
+      user.push(
+        '',
+        'The combined `outputs` of all steps must conform to this JSON Schema:',
+        JSON.stringify(plan.outputs_schema)
+      );
+    }
+    if (previous.length > 0) {
+      user.push('', 'Previous steps:');
+      for (const r of previous) {
+        const summary = isRecord(r.response) ? r.response.summary : undefined;
+        user.push(`- ${r.id}: ${typeof summary === 'string' ? summary : r.status}`);
+      }
+    }
+
+    return [
+      { role: 'system', content: system.join('\n\n') },
+      { role: 'user', content: user.join('\n') }
+    ];
+  }
+
+  /**
+   * Run one step against the model and capture its output, timing and errors.
+   * Never throws: failures are recorded on the returned StepResult.
+   */
+  private async runStep(
+    plan: ExecutionPlan,
+    step: ExecutionPlan['steps'][number],
+    mcdMarkdown: string | undefined,
+    previous: StepResult[],
+    signal?: AbortSignal
+  ): Promise<StepResult> {
+    const startedAt = Date.now();
+    const result: StepResult = {
+      id: step.id,
+      status: 'completed',
+      started_at: new Date(startedAt).toISOString(),
+      finished_at: '',
+      duration_ms: 0
+    };
+
+    try {
+      const out = await this.chat(this.buildStepMessages(plan, step, mcdMarkdown, previous), {
+        model: this.model,
+        temperature: this.temperature,
+        signal
+      });
+      result.output = out.text;
+      const parsed = parseJsonReply(out.text);
+      if (parsed !== undefined) result.response = parsed;
+    } catch (err: unknown) {
+      result.status = 'failed';
+      result.error = err instanceof Error ? err.message : String(err);
+    }
+
+    const finishedAt = Date.now();
+    result.finished_at = new Date(finishedAt).toISOString();
+    result.duration_ms = finishedAt - startedAt;
+    return result;
+  }
+
   /**
    * Execute: Apply the execution plan after GO approval.
-   * This has side effects - actually runs the task steps.
+   * This has side effects - each step is sent to the model with the plan's domain
+   * framework and the project MCD, and per-step results are recorded in the plan file.
+   * Execution stops at the first failed step. Step outputs are merged and validated against the
+   * template's outputs_schema. The plan is only `completed` when the outputs conform and every
+   * verification command passes; only then are the outputs persisted on the instance.
    */
-  async executeTask(planId: string): Promise<{ ok: boolean; plan: ExecutionPlan; results: string[] }> {
+  async executeTask(
+    planId: string,
+    options: ExecuteOptions = {}
+  ): Promise<{ ok: boolean; plan: ExecutionPlan; results: string[] }> {
     // Load the plan
     const planPath = path.join(this.plansDir, `${planId}.yaml`);
     const raw = await readFile(planPath, 'utf8');
@@ -173,41 +676,181 @@ export class TaskExecutor {
       throw new Error(`Cannot execute plan with status: ${plan.status}`);
     }
 
-    // Mark plan as executing
-    plan.status = 'executing';
-    await writeFile(planPath, YAML.stringify(plan), 'utf8');
+    // Refuse before any side effects if the instance cannot start executing this plan.
+    const instance = await this.instanceStore.getInstance(plan.project_slug, plan.instance_id);
+    this.instanceStore.assertTransition(instance, 'executing');
+    this.instanceStore.assertCurrentPlan(instance, plan.plan_id);
+
+    // The MCD may have changed since GO was given. Drift already approved at prepare time
+    // (same current hash) is accepted; anything newer needs an explicit override.
+    const drift = await this.detectMcdDrift(plan.project_slug, instance.mcd_hash);
+    if (drift) {
+      const approved = plan.mcd_drift?.overridden && plan.mcd_drift.current_sha256 === drift.current_sha256;
+      if (!approved && !options.allowMcdDrift) {
+        throw new Error(
+          `MCD drift detected: ${describeDrift(drift)}. ` +
+            'Re-prepare the plan against the current MCD, or pass allow_mcd_drift to override.'
+        );
+      }
+      drift.overridden = true;
+      plan.mcd_drift = drift;
+    }
+
+    if (plan.deferred_inputs || options.boundInputs) {
+      await this.bindDeferredInputs(plan, instance.inputs, options.boundInputs ?? {});
+      // Bound values change the commands; check them again.
+      await this.rejectUnsafeCommands(plan, planPath);
+    }
 
-    const results: string[] = [];
+    // Claim the instance first: of two concurrent executions only one gets past this.
+    const transition = { actor: options.actor ?? DEFAULT_ACTOR, plan_id: plan.plan_id };
+    await this.instanceStore.transition(plan.project_slug, plan.instance_id, 'executing', {
+      ...transition,
+      currentPlanId: plan.plan_id
+    });
 
+    // Until the instance leaves `executing`, prepareTask must not treat it as interrupted.
+    runningPlans.add(plan.plan_id);
     try {
-      // Execute steps sequentially
-      for (const step of plan.steps) {
-        results.push(`[Step ${step.id}] ${step.instruction}`);
-        // Actual execution logic would go here
-        // For now, this is a placeholder - real execution will involve:
-        // - Applying domain framework constraints
-        // - Running the step instruction
-        // - Validating outputs
-      }
+      const results: string[] = [];
+
+      let failure: string | undefined;
+      try {
+        // Mark plan as executing
+        plan.status = 'executing';
+        plan.started_at = new Date().toISOString();
+        plan.step_results = [];
+        await writeFile(planPath, YAML.stringify(plan), 'utf8');
+
+        failure = await this.runPlan(plan, planPath, results, options.signal);
+      } catch (err: any) {
+        // Mark plan as failed
+        plan.status = 'failed';
+        plan.error = err instanceof Error ? err.message : String(err);
+        plan.finished_at = new Date().toISOString();
+        await writeFile(planPath, YAML.stringify(plan), 'utf8');
+        await this.instanceStore.transition(plan.project_slug, plan.instance_id, 'failed', {
+          ...transition,
+          note: plan.error
+        });
 
-      // Run verification commands
-      for (const verify of plan.verification) {
-        results.push(`[Verify ${verify.id}] ${verify.command}`);
-        // Actual verification execution would go here
+        throw err;
       }
 
-      // Mark plan as completed
-      plan.status = 'completed';
+      plan.status = failure ? 'failed' : 'completed';
+      if (failure) plan.error = failure;
+      plan.finished_at = new Date().toISOString();
       await writeFile(planPath, YAML.stringify(plan), 'utf8');
 
-      return { ok: true, plan, results };
-    } catch (err: any) {
-      // Mark plan as failed
-      plan.status = 'failed';
+      await this.instanceStore.transition(
+        plan.project_slug,
+        plan.instance_id,
+        failure ? 'failed' : 'executed',
+        { ...transition, note: failure }
+      );
+
+      return { ok: !failure, plan, results };
+    } finally {
+      runningPlans.delete(plan.plan_id);
+    }
+  }
+
+  /**
+   * Fill a plan's deferred inputs into its steps and verification commands. The instance inputs
+   * with the bound values applied must still satisfy the template's inputs_schema.
+   */
+  private async bindDeferredInputs(
+    plan: ExecutionPlan,
+    instanceInputs: Record<string, unknown>,
+    bound: Record<string, unknown>
+  ): Promise<void> {
+    const deferred = plan.deferred_inputs ?? [];
+    const unexpected = Object.keys(bound).filter((key) => !deferred.includes(key));
+    if (unexpected.length > 0) {
+      throw new Error(`Plan ${plan.plan_id} does not defer inputs: ${unexpected.join(', ')}`);
+    }
+    const missing = deferred.filter((key) => !(key in bound));
+    if (missing.length > 0) {
+      throw new Error(`Plan ${plan.plan_id} needs values for deferred inputs: ${missing.join(', ')}`);
+    }
+
+    const template = await this.templateStore.loadTemplate(plan.template_id, plan.template_version);
+    const check = validateSchema(template.inputs_schema, { ...instanceInputs, ...bound });
+    if (!check.valid) {
+      throw new Error(`Bound inputs failed validation for ${plan.template_id}@${plan.template_version}: ${check.errors.join(', ')}`);
+    }
+
+    // Placeholders left at prepare time are those of the deferred inputs and the variables derived from them.
+    const pending = resolveVariables(templateVariables(template), instanceInputs, deferred).deferred;
+    const { scope } = resolveVariables(templateVariables(template), { ...instanceInputs, ...bound });
+    const text = this.renderPlanText(`Plan ${plan.plan_id}`, plan, scope, { only: pending });
+    plan.steps = text.steps;
+    plan.verification = text.verification;
+    plan.bound_inputs = bound;
+  }
+
+  /**
+   * Run the steps, output validation and verification of an executing plan.
+   * Returns a failure message, or undefined when everything passed.
+   */
+  private async runPlan(
+    plan: ExecutionPlan,
+    planPath: string,
+    results: string[],
+    signal?: AbortSignal
+  ): Promise<string | undefined> {
+    const stepResults = plan.step_results ?? [];
+    const mcdMarkdown = plan.mcd_context
+      ? plan.mcd_context.markdown
+      : await this.loadMcdMarkdown(plan.project_slug);
+
+    // Execute steps sequentially, persisting progress after each one.
+    for (const step of plan.steps) {
+      const stepResult = await this.runStep(plan, step, mcdMarkdown, stepResults, signal);
+      stepResults.push(stepResult);
       await writeFile(planPath, YAML.stringify(plan), 'utf8');
 
-      throw err;
+      if (stepResult.status === 'failed') {
+        results.push(`[Step ${step.id}] failed after ${stepResult.duration_ms}ms: ${stepResult.error}`);
+        return `Step ${step.id} failed: ${stepResult.error}`;
+      }
+
+      results.push(`[Step ${step.id}] completed in ${stepResult.duration_ms}ms`);
+    }
+
+    // Validate the collected outputs against the template's outputs_schema.
+    const outputsSchema =
+      plan.outputs_schema ??
+      (await this.templateStore.loadTemplate(plan.template_id, plan.template_version)).outputs_schema;
+    plan.outputs = collectOutputs(stepResults);
+    const outputCheck = validateSchema(outputsSchema, plan.outputs);
+    if (!outputCheck.valid) {
+      results.push(`[Outputs] failed validation: ${outputCheck.errors.join('; ')}`);
+      plan.output_errors = outputCheck.errors;
+      return `Outputs failed validation against outputs_schema: ${outputCheck.errors.join('; ')}`;
+    }
+    results.push('[Outputs] valid');
+
+    // Run verification commands; the plan only completes if all of them pass.
+    plan.verification_results = await this.verifier.runAll(plan.verification, signal);
+    const failedChecks: string[] = [];
+    for (const v of plan.verification_results) {
+      if (v.status === 'passed') {
+        results.push(`[Verify ${v.id}] passed in ${v.duration_ms}ms`);
+      } else {
+        const why = v.error ?? `exit code ${v.exit_code}`;
+        results.push(`[Verify ${v.id}] failed: ${why}`);
+        failedChecks.push(`${v.id} (${why})`);
+      }
     }
+
+    if (failedChecks.length > 0) {
+      return `Verification failed: ${failedChecks.join(', ')}`;
+    }
+
+    // Only outputs of a plan that passed verification are recorded on the instance.
+    await this.instanceStore.recordOutputs(plan.project_slug, plan.instance_id, plan.outputs, plan.plan_id);
+    return undefined;
   }
 
   /**
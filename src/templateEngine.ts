@@ -0,0 +1,292 @@
+/**
+ * Placeholder substitution for task template steps and verification commands.
+ *
+ * A placeholder is `{expression}` where
+ *   expression := path ('|' filter (':' literal (',' literal)*)?)*
+ *   path       := input or variable name, then `.key` or `.0` segments (`response_schema.properties`)
+ *   literal    := 'string' | "string" | number | true | false | null
+ *
+ * Braces that do not start with a name (`{ "a": 1 }`, `{ id }`, `{}`) are left as they are; write
+ * `{{name}}` for a literal `{name}`. A placeholder whose value is missing is unresolved, unless a
+ * `default` filter supplies one. Strings render as-is, null as '', objects and arrays as indented JSON.
+ */
+
+export type Literal = string | number | boolean | null;
+
+export type Filter = {
+  name: string;
+  args: Literal[];
+};
+
+export type Expression = {
+  /** The text between the braces, trimmed; used in error messages. */
+  source: string;
+  path: string[];
+  filters: Filter[];
+};
+
+type FilterSpec = {
+  /** Allowed argument counts as [min, max]. */
+  args: [number, number];
+  /** Also called for a missing value; the others leave it missing. */
+  acceptsMissing?: boolean;
+  apply: (value: unknown, args: Literal[]) => unknown;
+};
+
+function singleQuote(text: string): string {
+  return `'${text.replaceAll("'", `'\\''`)}'`;
+}
+
+/**
+ * Quote text as one POSIX shell word. Text made only of characters no shell treats specially
+ * (`todos.test.js`, `/api/todos/:id`) is left as it is.
+ */
+export function quoteShellArg(text: string): string {
+  return /^[A-Za-z0-9_@%+=:,./-]+$/.test(text) ? text : singleQuote(text);
+}
+
+function words(value: unknown): string[] {
+  return render(value)
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((w) => w.toLowerCase());
+}
+
+const capitalize = (w: string) => w.charAt(0).toUpperCase() + w.slice(1);
+
+const FILTERS: Record<string, FilterSpec> = {
+  default: { args: [1, 1], acceptsMissing: true, apply: (value, [fallback]) => value ?? fallback },
+  json: { args: [0, 0], apply: (value) => JSON.stringify(value) },
+  shellQuote: { args: [0, 0], apply: (value) => singleQuote(render(value)) },
+  upper: { args: [0, 0], apply: (value) => render(value).toUpperCase() },
+  lower: { args: [0, 0], apply: (value) => render(value).toLowerCase() },
+  pascalCase: { args: [0, 0], apply: (value) => words(value).map(capitalize).join('') },
+  camelCase: {
+    args: [0, 0],
+    apply: (value) => words(value).map((w, i) => (i === 0 ? w : capitalize(w))).join('')
+  },
+  kebabCase: { args: [0, 0], apply: (value) => words(value).join('-') },
+  snakeCase: { args: [0, 0], apply: (value) => words(value).join('_') },
+  join: {
+    args: [0, 1],
+    apply: (value, [separator]) =>
+      Array.isArray(value) ? value.map(render).join(separator === undefined ? ', ' : render(separator)) : value
+  },
+  // Last path segment that is not a route parameter: /api/todos/:id → todos
+  lastSegment: {
+    args: [0, 0],
+    apply: (value) =>
+      render(value)
+        .split('/')
+        .filter((s) => s && !s.includes(':') && !s.includes('?'))
+        .at(-1)
+  }
+};
+
+/**
+ * Render a resolved value as text.
+ */
+function render(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (value === null || value === undefined) return '';
+  return JSON.stringify(value, null, 2);
+}
+
+function parseLiteral(source: string): Literal {
+  const quoted = source.match(/^'([^']*)'$|^"([^"]*)"$/);
+  if (quoted) return quoted[1] ?? quoted[2];
+  if (source === 'true') return true;
+  if (source === 'false') return false;
+  if (source === 'null') return null;
+  if (/^-?\d+(\.\d+)?$/.test(source)) return Number(source);
+  throw new Error(`invalid argument ${source || '(empty)'}`);
+}
+
+/**
+ * Split on a separator character outside quoted strings.
+ */
+function splitOutsideQuotes(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | undefined;
+  let start = 0;
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (quote) {
+      if (c === quote) quote = undefined;
+    } else if (c === "'" || c === '"') {
+      quote = c;
+    } else if (c === separator) {
+      parts.push(source.slice(start, i));
+      start = i + 1;
+    }
+  }
+  if (quote) throw new Error('unterminated string');
+  parts.push(source.slice(start));
+  return parts.map((p) => p.trim());
+}
+
+/**
+ * Parse a placeholder expression (the text between the braces, or a template variable).
+ */
+export function parseExpression(source: string): Expression {
+  const [pathSource, ...filterSources] = splitOutsideQuotes(source, '|');
+  if (!/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*$/.test(pathSource)) {
+    throw new Error(`invalid path '${pathSource}'`);
+  }
+
+  const filters = filterSources.map((filterSource): Filter => {
+    const colon = filterSource.indexOf(':');
+    const name = (colon < 0 ? filterSource : filterSource.slice(0, colon)).trim();
+    const spec = FILTERS[name];
+    if (!spec) throw new Error(`unknown filter '${name}'`);
+    const args = colon < 0 ? [] : splitOutsideQuotes(filterSource.slice(colon + 1), ',').map(parseLiteral);
+    const [min, max] = spec.args;
+    if (args.length < min || args.length > max) {
+      throw new Error(`filter ${name} takes ${min === max ? min : `${min} to ${max}`} argument(s)`);
+    }
+    return { name, args };
+  });
+
+  return { source: source.trim(), path: pathSource.split('.'), filters };
+}
+
+/**
+ * Value of an expression, or undefined when it is missing.
+ */
+export function evaluateExpression(expression: Expression, scope: Record<string, unknown>): unknown {
+  let value: unknown = scope;
+  for (const segment of expression.path) {
+    if (Array.isArray(value) && /^\d+$/.test(segment)) value = value[Number(segment)];
+    else if (typeof value === 'object' && value !== null && Object.hasOwn(value, segment)) {
+      value = (value as Record<string, unknown>)[segment];
+    } else {
+      value = undefined;
+      break;
+    }
+  }
+
+  for (const filter of expression.filters) {
+    const spec = FILTERS[filter.name];
+    if (value === undefined && !spec.acceptsMissing) return undefined;
+    value = spec.apply(value, filter.args);
+  }
+  return value;
+}
+
+type Segment = { text: string } | { placeholder: string };
+
+// `{{...}}` escapes, or a `{...}` that starts with a name. Other braces are plain text.
+const PLACEHOLDER = /\{\{([^{}]*)\}\}|\{([A-Za-z_][^{}]*)\}/g;
+
+function segments(text: string): Segment[] {
+  const out: Segment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    out.push({ text: text.slice(last, match.index) });
+    out.push(match[1] !== undefined ? { text: `{${match[1]}}` } : { placeholder: match[2] });
+    last = match.index + match[0].length;
+  }
+  out.push({ text: text.slice(last) });
+  return out;
+}
+
+/**
+ * Parse every placeholder in a template string. Throws on the first malformed one.
+ */
+export function templatePlaceholders(text: string): Expression[] {
+  const out: Expression[] = [];
+  for (const segment of segments(text)) {
+    if (!('placeholder' in segment)) continue;
+    try {
+      out.push(parseExpression(segment.placeholder));
+    } catch (err) {
+      throw new Error(`{${segment.placeholder}}: ${(err as Error).message}`);
+    }
+  }
+  return out;
+}
+
+export type RenderOptions = {
+  /** Names whose placeholders are kept as-is, to be rendered later. */
+  defer?: ReadonlySet<string>;
+  /**
+   * Render only the placeholders of these names, in text that was already rendered with them
+   * deferred. Everything else, including braces that came from substituted values, is left alone.
+   */
+  only?: ReadonlySet<string>;
+  /** Applied to each substituted value, e.g. to shell-quote values in commands. */
+  escape?: (text: string, expression: Expression) => string;
+};
+
+/**
+ * Substitute the placeholders of `text` from `scope`. Placeholders whose value is missing are
+ * kept and listed in `unresolved`.
+ */
+export function renderTemplate(
+  text: string,
+  scope: Record<string, unknown>,
+  options: RenderOptions = {}
+): { text: string; unresolved: string[] } {
+  const unresolved: string[] = [];
+  const substitute = (raw: string, expression: Expression): string => {
+    const value = evaluateExpression(expression, scope);
+    if (value !== undefined) return options.escape ? options.escape(render(value), expression) : render(value);
+    unresolved.push(raw);
+    return raw;
+  };
+
+  const { only } = options;
+  if (only) {
+    const rendered = text.replace(/\{([A-Za-z_][^{}]*)\}/g, (raw, inner: string) => {
+      let expression: Expression;
+      try {
+        expression = parseExpression(inner);
+      } catch {
+        return raw;
+      }
+      return only.has(expression.path[0]) ? substitute(raw, expression) : raw;
+    });
+    return { text: rendered, unresolved };
+  }
+
+  let out = '';
+  for (const segment of segments(text)) {
+    if (!('placeholder' in segment)) {
+      out += segment.text;
+      continue;
+    }
+    const raw = `{${segment.placeholder}}`;
+    const expression = parseExpression(segment.placeholder);
+    out += options.defer?.has(expression.path[0]) ? raw : substitute(raw, expression);
+  }
+  return { text: out, unresolved };
+}
+
+/**
+ * Evaluate a template's declared `variables` in order; each may read the inputs and the variables
+ * before it. Variables that read a deferred name are deferred as well. Returns the scope for
+ * rendering (inputs plus resolved variables) and every deferred name.
+ */
+export function resolveVariables(
+  variables: Record<string, string> | undefined,
+  inputs: Record<string, unknown>,
+  deferred: Iterable<string> = []
+): { scope: Record<string, unknown>; deferred: Set<string> } {
+  const scope: Record<string, unknown> = { ...inputs };
+  const deferredNames = new Set(deferred);
+  for (const name of deferredNames) delete scope[name];
+
+  for (const [name, source] of Object.entries(variables ?? {})) {
+    const expression = parseExpression(source);
+    if (deferredNames.has(expression.path[0])) {
+      deferredNames.add(name);
+      continue;
+    }
+    const value = evaluateExpression(expression, scope);
+    if (value !== undefined) scope[name] = value;
+  }
+
+  return { scope, deferred: deferredNames };
+}
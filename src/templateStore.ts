@@ -2,10 +2,17 @@ import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
 import * as path from 'node:path';
 import YAML from 'yaml';
 import { validateSchema } from './schema.js';
+import { assertExpectedSha256, sha256, withFileLock } from './concurrency.js';
+import { conditionInputs, parseCondition } from './stepConditions.js';
+import { parseExpression, templatePlaceholders } from './templateEngine.js';
 
 export type TaskStep = {
   id: string;
   instruction: string;
+  /** Condition on the instance inputs (see stepConditions.ts); the step is skipped when false. */
+  when?: string;
+  /** Earlier steps this one needs; it is skipped when any of them is skipped. */
+  depends_on?: string[];
 };
 
 export type VerificationStep = {
@@ -19,6 +26,11 @@ export type TaskTemplate = {
   description: string;
   inputs_schema: Record<string, unknown>;
   outputs_schema: Record<string, unknown>;
+  /**
+   * Derived values available to placeholders, as expressions over the inputs and the variables
+   * before them (see templateEngine.ts), e.g. `resource: endpoint_path | lastSegment`.
+   */
+  variables?: Record<string, string>;
   steps: TaskStep[];
   verification?: VerificationStep[];
   domain_profiles_default?: string[];
@@ -27,6 +39,8 @@ export type TaskTemplate = {
   deprecated?: boolean;
   deprecated_at?: string;
   deprecated_reason?: string;
+  /** Template to use instead of this deprecated one: `<id>@<version>`, or `<id>` for its latest version. */
+  superseded_by?: string;
 };
 
 // JSON Schema for validating TaskTemplate structure
@@ -40,6 +54,11 @@ const TASK_TEMPLATE_SCHEMA = {
     description: { type: 'string', minLength: 1 },
     inputs_schema: { type: 'object' },
     outputs_schema: { type: 'object' },
+    variables: {
+      type: 'object',
+      propertyNames: { pattern: '^[A-Za-z_][A-Za-z0-9_]*$' },
+      additionalProperties: { type: 'string', minLength: 1 }
+    },
     steps: {
       type: 'array',
       minItems: 1,
@@ -48,7 +67,9 @@ const TASK_TEMPLATE_SCHEMA = {
         required: ['id', 'instruction'],
         properties: {
           id: { type: 'string' },
-          instruction: { type: 'string' }
+          instruction: { type: 'string' },
+          when: { type: 'string', minLength: 1 },
+          depends_on: { type: 'array', items: { type: 'string' } }
         }
       }
     },
@@ -74,7 +95,8 @@ const TASK_TEMPLATE_SCHEMA = {
     active: { type: 'boolean' },
     deprecated: { type: 'boolean' },
     deprecated_at: { type: 'string' },
-    deprecated_reason: { type: 'string' }
+    deprecated_reason: { type: 'string' },
+    superseded_by: { type: 'string', pattern: '^[^@]+(@[1-9][0-9]*)?$' }
   }
 } as const;
 
@@ -82,6 +104,107 @@ function isRecord(v: unknown): v is Record<string, unknown> {
   return typeof v === 'object' && v !== null && !Array.isArray(v);
 }
 
+/**
+ * Check step `when` expressions and `depends_on` references, which the JSON schema cannot:
+ * expressions must parse and only read inputs declared by inputs_schema (when it lists
+ * properties), and dependencies must name earlier steps.
+ */
+function stepErrors(template: TaskTemplate): string[] {
+  const errors: string[] = [];
+  const declared = isRecord(template.inputs_schema.properties) ? template.inputs_schema.properties : undefined;
+  const earlier = new Set<string>();
+
+  for (const step of template.steps) {
+    if (step.when !== undefined) {
+      try {
+        const condition = parseCondition(step.when);
+        for (const name of conditionInputs(condition)) {
+          if (declared && !Object.hasOwn(declared, name)) {
+            errors.push(`step ${step.id} when reads '${name}', which inputs_schema does not declare`);
+          }
+        }
+      } catch (err) {
+        errors.push(`step ${step.id} when: ${(err as Error).message}`);
+      }
+    }
+    for (const dep of step.depends_on ?? []) {
+      if (!earlier.has(dep)) errors.push(`step ${step.id} depends_on '${dep}', which is not an earlier step`);
+    }
+    earlier.add(step.id);
+  }
+
+  return errors;
+}
+
+/**
+ * The template's variables, after the built-in `resource: endpoint_path | lastSegment` that
+ * templates written before `variables` existed rely on. The built-in is left out when the template
+ * defines `resource` itself or does not declare an `endpoint_path` input.
+ */
+export function templateVariables(template: TaskTemplate): Record<string, string> {
+  const declared = isRecord(template.inputs_schema.properties) ? template.inputs_schema.properties : undefined;
+  const own = template.variables ?? {};
+  const legacy =
+    !Object.hasOwn(own, 'resource') &&
+    !(declared && Object.hasOwn(declared, 'resource')) &&
+    (!declared || Object.hasOwn(declared, 'endpoint_path'));
+  return legacy ? { resource: 'endpoint_path | lastSegment', ...own } : { ...own };
+}
+
+/**
+ * Check template variables and the placeholders of steps and verification commands: they must
+ * parse, and (when inputs_schema lists properties) read only declared inputs or variables.
+ * Variables may read earlier variables and must not shadow an input.
+ */
+function placeholderErrors(template: TaskTemplate): string[] {
+  const errors: string[] = [];
+  const declared = isRecord(template.inputs_schema.properties) ? template.inputs_schema.properties : undefined;
+  const variables = new Set<string>();
+  const known = (name: string) => !declared || Object.hasOwn(declared, name) || variables.has(name);
+
+  for (const [name, source] of Object.entries(templateVariables(template))) {
+    if (declared && Object.hasOwn(declared, name)) {
+      errors.push(`variable ${name} shadows an input of the same name`);
+    }
+    try {
+      const root = parseExpression(source).path[0];
+      if (!known(root)) errors.push(`variable ${name} reads '${root}', which is not an input or an earlier variable`);
+    } catch (err) {
+      errors.push(`variable ${name}: ${(err as Error).message}`);
+    }
+    variables.add(name);
+  }
+
+  const check = (where: string, text: string) => {
+    try {
+      for (const expression of templatePlaceholders(text)) {
+        const root = expression.path[0];
+        if (!known(root)) errors.push(`${where} reads '${root}', which is not an input or a variable`);
+      }
+    } catch (err) {
+      errors.push(`${where}: ${(err as Error).message}`);
+    }
+  };
+  for (const step of template.steps) check(`step ${step.id}`, step.instruction);
+  for (const v of template.verification ?? []) check(`verification ${v.id}`, v.command);
+
+  return errors;
+}
+
+function templateErrors(template: TaskTemplate): string[] {
+  return [...stepErrors(template), ...placeholderErrors(template)];
+}
+
+/**
+ * Why a template should not be used, for errors and warnings; undefined unless it is deprecated.
+ */
+export function templateDeprecationNotice(template: TaskTemplate): string | undefined {
+  if (template.deprecated !== true) return undefined;
+  const reason = template.deprecated_reason ? `: ${template.deprecated_reason}` : '';
+  const replacement = template.superseded_by ? `; use ${template.superseded_by} instead` : '';
+  return `Task template ${template.id}@${template.version} is deprecated${reason}${replacement}`;
+}
+
 export class TaskTemplateStore {
   constructor(private readonly baseDir = path.join(process.cwd(), 'task-templates')) {}
 
@@ -115,11 +238,24 @@ export class TaskTemplateStore {
     return { id, version };
   }
 
+  /**
+   * Whether a stored template version is marked deprecated. Files that cannot be read or parsed
+   * count as not deprecated; loadTemplate reports those.
+   */
+  private async isDeprecated(templateId: string, version: number): Promise<boolean> {
+    try {
+      const parsed = YAML.parse(await readFile(this.templatePath(templateId, version), 'utf8')) as unknown;
+      return isRecord(parsed) && parsed.deprecated === true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * List all template IDs (unique, sorted)
-   * Returns only the latest version of each template ID
+   * Templates whose every version is deprecated are left out unless `includeDeprecated` is set.
    */
-  async listTemplateIds(): Promise<string[]> {
+  async listTemplateIds(options: { includeDeprecated?: boolean } = {}): Promise<string[]> {
     try {
       const s = await stat(this.baseDir);
       if (!s.isDirectory()) return [];
@@ -141,7 +277,12 @@ export class TaskTemplateStore {
       }
     }
 
-    const ids = Array.from(templateMap.keys());
+    const ids: string[] = [];
+    for (const id of templateMap.keys()) {
+      const listed =
+        options.includeDeprecated || (await this.getLatestVersion(id, { includeDeprecated: false })) !== undefined;
+      if (listed) ids.push(id);
+    }
     return ids.sort((a, b) => a.localeCompare(b));
   }
 
@@ -170,12 +311,19 @@ export class TaskTemplateStore {
   }
 
   /**
-   * Get the latest version number for a template ID
+   * Get the latest version number for a template ID, preferring versions that are not deprecated.
+   * With `includeDeprecated: false`, only those count.
    * Returns undefined if template doesn't exist
    */
-  async getLatestVersion(templateId: string): Promise<number | undefined> {
+  async getLatestVersion(
+    templateId: string,
+    options: { includeDeprecated?: boolean } = {}
+  ): Promise<number | undefined> {
     const versions = await this.listTemplateVersions(templateId);
-    return versions.length > 0 ? versions[0] : undefined;
+    for (const version of versions) {
+      if (!(await this.isDeprecated(templateId, version))) return version;
+    }
+    return options.includeDeprecated === false ? undefined : versions[0];
   }
 
   /**
@@ -199,9 +347,10 @@ export class TaskTemplateStore {
 
     // Validate against schema
     const { valid, errors } = validateSchema(TASK_TEMPLATE_SCHEMA, parsed);
-    if (!valid) {
+    const allErrors = valid ? templateErrors(parsed as TaskTemplate) : errors;
+    if (allErrors.length > 0) {
       throw new Error(
-        `Task template ${templateId}@${targetVersion} failed validation: ${errors.join(', ')}`
+        `Task template ${templateId}@${targetVersion} failed validation: ${allErrors.join(', ')}`
       );
     }
 
@@ -209,54 +358,134 @@ export class TaskTemplateStore {
   }
 
   /**
-   * Save a task template with versioning
+   * sha256 of a template file as stored, or null when it does not exist
+   */
+  async templateSha256(templateId: string, version: number): Promise<string | null> {
+    try {
+      return sha256(await readFile(this.templatePath(templateId, version), 'utf8'));
+    } catch (err: unknown) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  /**
+   * Save a task template with versioning.
+   * When expectedSha256 is given, the write is rejected with a ConflictError
+   * unless the stored file still hashes to that value. The check and the write
+   * hold the file's lock, so of two writers sending the same hash only the first succeeds.
    */
-  async putTemplate(template: TaskTemplate): Promise<{ id: string; version: number; file: string }> {
+  async putTemplate(
+    template: TaskTemplate,
+    expectedSha256?: string
+  ): Promise<{ id: string; version: number; file: string; sha256: string }> {
     // Validate template structure
     const { valid, errors } = validateSchema(TASK_TEMPLATE_SCHEMA, template);
-    if (!valid) {
-      throw new Error(`Invalid task template: ${errors.join(', ')}`);
+    const allErrors = valid ? templateErrors(template) : errors;
+    if (allErrors.length > 0) {
+      throw new Error(`Invalid task template: ${allErrors.join(', ')}`);
     }
 
-    await mkdir(this.baseDir, { recursive: true });
-
     const filePath = this.templatePath(template.id, template.version);
-    const yamlText = YAML.stringify(template);
-    await writeFile(filePath, yamlText, 'utf8');
-
-    return {
-      id: template.id,
-      version: template.version,
-      file: path.relative(process.cwd(), filePath)
-    };
+    return withFileLock(filePath, async () => {
+      assertExpectedSha256(
+        `task template ${template.id}@${template.version}`,
+        expectedSha256,
+        await this.templateSha256(template.id, template.version)
+      );
+
+      await mkdir(this.baseDir, { recursive: true });
+
+      const yamlText = YAML.stringify(template);
+      await writeFile(filePath, yamlText, 'utf8');
+
+      return {
+        id: template.id,
+        version: template.version,
+        file: path.relative(process.cwd(), filePath),
+        sha256: sha256(yamlText)
+      };
+    });
   }
 
   /**
    * Deprecate a task template (soft delete)
-   * Loads the template, adds deprecation metadata, and saves it back
+   * Loads the template, adds deprecation metadata, and saves it back.
+   * supersededBy (`<id>@<version>` or `<id>`) names the template to use instead; it must exist.
    */
   async deleteTemplate(
     templateId: string,
     version: number,
-    reason?: string
+    reason?: string,
+    supersededBy?: string
   ): Promise<{ id: string; version: number; deprecated: boolean }> {
-    const template = await this.loadTemplate(templateId, version);
+    return withFileLock(this.templatePath(templateId, version), async () => {
+      const template = await this.loadTemplate(templateId, version);
 
-    template.active = false;
-    template.deprecated = true;
-    template.deprecated_at = new Date().toISOString();
-    if (reason && reason.trim().length > 0) {
-      template.deprecated_reason = reason;
-    }
+      if (supersededBy !== undefined) {
+        if (!/^[^@]+(@[1-9][0-9]*)?$/.test(supersededBy)) {
+          throw new Error(`superseded_by must be <id>@<version> or <id>, got '${supersededBy}'`);
+        }
+        const [targetId, targetVersion] = supersededBy.split('@');
+        const exists =
+          targetVersion === undefined
+            ? (await this.getLatestVersion(targetId)) !== undefined
+            : (await this.templateSha256(targetId, Number(targetVersion))) !== null;
+        if (!exists) {
+          throw new Error(`Task template not found: ${supersededBy} (superseded_by)`);
+        }
+        if (targetId === templateId && Number(targetVersion) === version) {
+          throw new Error(`Task template ${templateId}@${version} cannot be superseded by itself`);
+        }
+      }
 
-    const filePath = this.templatePath(templateId, version);
-    const yamlText = YAML.stringify(template);
-    await writeFile(filePath, yamlText, 'utf8');
+      template.active = false;
+      template.deprecated = true;
+      template.deprecated_at = new Date().toISOString();
+      if (reason && reason.trim().length > 0) {
+        template.deprecated_reason = reason;
+      }
+      if (supersededBy !== undefined) {
+        template.superseded_by = supersededBy;
+      }
 
-    return {
-      id: templateId,
-      version,
-      deprecated: true
-    };
+      const filePath = this.templatePath(templateId, version);
+      const yamlText = YAML.stringify(template);
+      await writeFile(filePath, yamlText, 'utf8');
+
+      return {
+        id: templateId,
+        version,
+        deprecated: true
+      };
+    });
+  }
+
+  /**
+   * Undo deleteTemplate: remove the deprecation metadata and superseded_by pointer, and make the
+   * template active again.
+   */
+  async undeprecateTemplate(
+    templateId: string,
+    version: number
+  ): Promise<{ id: string; version: number; deprecated: boolean }> {
+    return withFileLock(this.templatePath(templateId, version), async () => {
+      const template = await this.loadTemplate(templateId, version);
+
+      delete template.active;
+      delete template.deprecated;
+      delete template.deprecated_at;
+      delete template.deprecated_reason;
+      delete template.superseded_by;
+
+      const filePath = this.templatePath(templateId, version);
+      await writeFile(filePath, YAML.stringify(template), 'utf8');
+
+      return {
+        id: templateId,
+        version,
+        deprecated: false
+      };
+    });
   }
 }
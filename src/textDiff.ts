@@ -0,0 +1,123 @@
+export type DiffLine = {
+  op: ' ' | '-' | '+';
+  text: string;
+};
+
+export type UnifiedDiffOptions = {
+  fromLabel?: string;
+  toLabel?: string;
+  /** Unchanged lines shown around each change. Defaults to 3. */
+  context?: number;
+};
+
+function splitLines(text: string): string[] {
+  if (text.length === 0) return [];
+  const lines = text.split(/\r?\n/);
+  // A trailing newline does not start another line.
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Line-level diff via longest common subsequence. Documents here (MCDs, profiles)
+ * are small enough that the O(n·m) table is not a concern.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      out.push({ op: ' ', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      out.push({ op: '-', text: a[i++] });
+    } else {
+      out.push({ op: '+', text: b[j++] });
+    }
+  }
+  while (i < n) out.push({ op: '-', text: a[i++] });
+  while (j < m) out.push({ op: '+', text: b[j++] });
+
+  return out;
+}
+
+/**
+ * Count added and removed lines between two texts.
+ */
+export function diffStat(oldText: string, newText: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const l of diffLines(oldText, newText)) {
+    if (l.op === '+') added++;
+    else if (l.op === '-') removed++;
+  }
+  return { added, removed };
+}
+
+/**
+ * Render a unified diff (`---`/`+++` headers and `@@` hunks). Returns an empty string
+ * when the texts are identical.
+ */
+export function unifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+  const context = options.context ?? 3;
+  const lines = diffLines(oldText, newText);
+  if (!lines.some((l) => l.op !== ' ')) return '';
+
+  // Line numbers (1-based) of each diff line in the old and new texts.
+  const oldNo: number[] = [];
+  const newNo: number[] = [];
+  let o = 1;
+  let n = 1;
+  for (const l of lines) {
+    oldNo.push(o);
+    newNo.push(n);
+    if (l.op !== '+') o++;
+    if (l.op !== '-') n++;
+  }
+
+  // Group changes into hunks, merging ones whose context windows overlap.
+  const hunks: Array<{ start: number; end: number }> = [];
+  lines.forEach((l, idx) => {
+    if (l.op === ' ') return;
+    const start = Math.max(0, idx - context);
+    const end = Math.min(lines.length - 1, idx + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = Math.max(last.end, end);
+    } else {
+      hunks.push({ start, end });
+    }
+  });
+
+  const out: string[] = [`--- ${options.fromLabel ?? 'a'}`, `+++ ${options.toLabel ?? 'b'}`];
+  for (const h of hunks) {
+    const slice = lines.slice(h.start, h.end + 1);
+    const oldCount = slice.filter((l) => l.op !== '+').length;
+    const newCount = slice.filter((l) => l.op !== '-').length;
+    // Unified diff convention: an empty range is reported at the line before it.
+    const oldStart = oldCount === 0 ? oldNo[h.start] - 1 : oldNo[h.start];
+    const newStart = newCount === 0 ? newNo[h.start] - 1 : newNo[h.start];
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const l of slice) out.push(`${l.op}${l.text}`);
+  }
+
+  return out.join('\n') + '\n';
+}
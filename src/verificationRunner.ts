@@ -0,0 +1,248 @@
+import { spawn } from 'node:child_process';
+import * as path from 'node:path';
+
+import type { VerificationStep } from './templateStore.js';
+
+/**
+ * Outcome of running one verification command.
+ */
+export type VerificationResult = {
+  id: string;
+  command: string;
+  status: 'passed' | 'failed';
+  exit_code: number | null;
+  signal: string | null;
+  timed_out: boolean;
+  duration_ms: number;
+  stdout: string;
+  stderr: string;
+  truncated: boolean;
+  error?: string;
+};
+
+export type VerificationRunnerOptions = {
+  /** Working directory commands run in. Defaults to process.cwd(). */
+  cwd?: string;
+  /** Per-command timeout. Defaults to 120s. */
+  timeoutMs?: number;
+  /** Names of environment variables passed through to commands. Everything else is dropped. */
+  envAllowList?: string[];
+  /** Maximum captured bytes per stream (stdout/stderr). */
+  maxOutputBytes?: number;
+};
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_MAX_OUTPUT_BYTES = 16 * 1024;
+const DEFAULT_ENV_ALLOW_LIST = [
+  'PATH',
+  'HOME',
+  'USERPROFILE',
+  'LANG',
+  'TERM',
+  'TMPDIR',
+  'TEMP',
+  'TMP',
+  'SystemRoot',
+  'ComSpec',
+  'PATHEXT'
+];
+
+function getEnv(name: string): string | undefined {
+  const v = process.env[name];
+  return v && v.trim().length > 0 ? v : undefined;
+}
+
+/**
+ * Read runner configuration from WARPOS_VERIFY_* environment variables.
+ */
+export function verificationOptionsFromEnv(): VerificationRunnerOptions {
+  const timeout = Number(getEnv('WARPOS_VERIFY_TIMEOUT_MS'));
+  const maxOutput = Number(getEnv('WARPOS_VERIFY_MAX_OUTPUT_BYTES'));
+  const allow = getEnv('WARPOS_VERIFY_ENV_ALLOW');
+
+  return {
+    cwd: getEnv('WARPOS_VERIFY_CWD'),
+    timeoutMs: Number.isFinite(timeout) && timeout > 0 ? timeout : undefined,
+    maxOutputBytes: Number.isFinite(maxOutput) && maxOutput > 0 ? maxOutput : undefined,
+    envAllowList: allow
+      ? allow
+          .split(',')
+          .map((s) => s.trim())
+          .filter((s) => s.length > 0)
+      : undefined
+  };
+}
+
+/**
+ * Accumulates a child stream up to a byte limit, remembering whether anything was cut.
+ */
+class CappedBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  truncated = false;
+
+  constructor(private readonly limit: number) {}
+
+  push(chunk: Buffer): void {
+    const room = this.limit - this.size;
+    if (room <= 0) {
+      this.truncated = true;
+      return;
+    }
+    const part = chunk.length > room ? chunk.subarray(0, room) : chunk;
+    if (part.length < chunk.length) this.truncated = true;
+    this.chunks.push(part);
+    this.size += part.length;
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString('utf8');
+  }
+}
+
+/**
+ * Runs template verification commands in a shell with a fixed working directory,
+ * an allow-listed environment, a timeout and bounded output capture.
+ */
+export class VerificationRunner {
+  private readonly cwd: string;
+  private readonly timeoutMs: number;
+  private readonly envAllowList: string[];
+  private readonly maxOutputBytes: number;
+
+  constructor(options: VerificationRunnerOptions = {}) {
+    this.cwd = path.resolve(options.cwd ?? process.cwd());
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.envAllowList = options.envAllowList ?? DEFAULT_ENV_ALLOW_LIST;
+    this.maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+  }
+
+  private buildEnv(): NodeJS.ProcessEnv {
+    const env: NodeJS.ProcessEnv = {};
+    for (const name of this.envAllowList) {
+      const v = process.env[name];
+      if (v !== undefined) env[name] = v;
+    }
+    return env;
+  }
+
+  /**
+   * Run a single verification command. Never throws: spawn errors, non-zero exits,
+   * timeouts and cancellation through `signal` are all reported as a `failed` result.
+   */
+  run(step: VerificationStep, signal?: AbortSignal): Promise<VerificationResult> {
+    const startedAt = Date.now();
+    const stdout = new CappedBuffer(this.maxOutputBytes);
+    const stderr = new CappedBuffer(this.maxOutputBytes);
+    // Run in its own process group on POSIX so a timeout or cancellation can kill the whole tree.
+    const detached = process.platform !== 'win32';
+
+    if (signal?.aborted) {
+      return Promise.resolve({
+        id: step.id,
+        command: step.command,
+        status: 'failed',
+        exit_code: null,
+        signal: null,
+        timed_out: false,
+        duration_ms: 0,
+        stdout: '',
+        stderr: '',
+        truncated: false,
+        error: 'Cancelled'
+      });
+    }
+
+    return new Promise((resolve) => {
+      let timedOut = false;
+      let cancelled = false;
+      let spawnError: string | undefined;
+
+      const child = spawn(step.command, {
+        cwd: this.cwd,
+        env: this.buildEnv(),
+        shell: true,
+        detached,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        windowsHide: true
+      });
+
+      const killTree = () => {
+        try {
+          if (detached && child.pid !== undefined) {
+            process.kill(-child.pid, 'SIGKILL');
+          } else {
+            child.kill('SIGKILL');
+          }
+        } catch {
+          // Process already exited.
+        }
+      };
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killTree();
+      }, this.timeoutMs);
+
+      const onAbort = () => {
+        cancelled = true;
+        killTree();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      child.stdout?.on('data', (chunk: Buffer) => stdout.push(chunk));
+      child.stderr?.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+      let settled = false;
+      const finish = (code: number | null, exitSignal: NodeJS.Signals | null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+
+        const passed = !timedOut && !cancelled && !spawnError && code === 0;
+        const result: VerificationResult = {
+          id: step.id,
+          command: step.command,
+          status: passed ? 'passed' : 'failed',
+          exit_code: code,
+          signal: exitSignal ?? null,
+          timed_out: timedOut,
+          duration_ms: Date.now() - startedAt,
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+          truncated: stdout.truncated || stderr.truncated
+        };
+        if (timedOut) {
+          result.error = `Timed out after ${this.timeoutMs}ms`;
+        } else if (cancelled) {
+          result.error = 'Cancelled';
+        } else if (spawnError) {
+          result.error = spawnError;
+        }
+
+        resolve(result);
+      };
+
+      // `close` is not guaranteed after a spawn failure, so settle on `error` as well.
+      child.on('error', (err) => {
+        spawnError = err.message;
+        finish(null, null);
+      });
+      child.on('close', (code, exitSignal) => finish(code, exitSignal));
+    });
+  }
+
+  /**
+   * Run all verification commands in order. Every command runs even if an earlier one fails,
+   * so the caller gets a complete pass/fail picture. After `signal` aborts, the remaining
+   * commands are not started and are reported as cancelled.
+   */
+  async runAll(steps: VerificationStep[], signal?: AbortSignal): Promise<VerificationResult[]> {
+    const results: VerificationResult[] = [];
+    for (const step of steps) {
+      results.push(await this.run(step, signal));
+    }
+    return results;
+  }
+}
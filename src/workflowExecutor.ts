@@ -0,0 +1,397 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import YAML from 'yaml';
+
+import { TaskInstanceStore } from './instanceStore.js';
+import { TaskTemplateStore } from './templateStore.js';
+import { TaskExecutor } from './taskExecutor.js';
+import { withFileLock } from './concurrency.js';
+
+/**
+ * Workflows being prepared or executed in this process. A workflow left `executing` that is not in
+ * here was interrupted and may be recovered by preparing it again.
+ */
+const activeWorkflows = new Map<string, 'preparing' | 'executing'>();
+
+/**
+ * Feeds a value from an upstream node's validated outputs into a downstream instance input.
+ * `output` is a dot path into the outputs object, e.g. `files.0` or `endpoint.path`.
+ */
+export type WorkflowBinding = {
+  input: string;
+  from: string;
+  output: string;
+};
+
+export type WorkflowNodeStatus = 'pending' | 'prepared' | 'completed' | 'failed' | 'skipped';
+
+export type WorkflowNode = {
+  id: string;
+  instance_id: string;
+  depends_on: string[];
+  bindings: WorkflowBinding[];
+  status: WorkflowNodeStatus;
+  plan_id?: string;
+  error?: string;
+};
+
+export type WorkflowStatus = 'draft' | 'prepared' | 'executing' | 'completed' | 'failed';
+
+/**
+ * A DAG of task instances, stored at `.warpos/workflows/<workflow_id>.yaml`.
+ */
+export type Workflow = {
+  workflow_id: string;
+  project_slug: string;
+  name?: string;
+  created_at: string;
+  status: WorkflowStatus;
+  /** Node ids in dependency order; nodes are prepared and executed in this order. */
+  order: string[];
+  nodes: WorkflowNode[];
+  started_at?: string;
+  finished_at?: string;
+  error?: string;
+};
+
+export type WorkflowNodeSpec = {
+  id: string;
+  instance_id: string;
+  depends_on?: string[];
+  bindings?: WorkflowBinding[];
+};
+
+export type WorkflowPrepareOptions = {
+  actor?: string;
+  allowMcdDrift?: boolean;
+  tokenBudget?: number;
+};
+
+export type WorkflowExecuteOptions = {
+  actor?: string;
+  allowMcdDrift?: boolean;
+  signal?: AbortSignal;
+};
+
+function assertSafeWorkflowId(id: string): void {
+  // Workflow ids are UUIDs and are used as filenames under the workflows directory.
+  if (!/^[A-Za-z0-9-]+$/.test(id)) {
+    throw new Error('Invalid workflow_id');
+  }
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+/**
+ * Read a dot path (`a.b.0`) from a value. Returns undefined when any segment is missing.
+ */
+function readPath(value: unknown, dotPath: string): unknown {
+  let current = value;
+  for (const segment of dotPath.split('.')) {
+    if (Array.isArray(current) && /^\d+$/.test(segment)) current = current[Number(segment)];
+    else if (isRecord(current) && Object.hasOwn(current, segment)) current = current[segment];
+    else return undefined;
+  }
+  return current;
+}
+
+/**
+ * Order nodes so every node comes after its dependencies. DFS with cycle detection, in the same
+ * way DomainProfileStore.resolveProfiles orders inheritance.
+ */
+function topologicalOrder(nodes: WorkflowNode[]): string[] {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const order: string[] = [];
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (id: string) => {
+    if (visited.has(id)) return;
+    if (visiting.has(id)) {
+      throw new Error(`Cycle detected in workflow dependencies at: ${id}`);
+    }
+
+    visiting.add(id);
+    for (const dep of byId.get(id)!.depends_on) visit(dep);
+    visiting.delete(id);
+    visited.add(id);
+    order.push(id);
+  };
+
+  for (const n of nodes) visit(n.id);
+  return order;
+}
+
+/**
+ * WorkflowExecutor runs DAGs of task instances:
+ * - create(): validate nodes, edges and bindings, and store the workflow
+ * - prepare(): prepare every node's plan in dependency order (no side effects)
+ * - execute(): execute the plans in order, binding upstream outputs into downstream inputs;
+ *   a failed node skips everything downstream of it
+ */
+export class WorkflowExecutor {
+  private readonly taskExecutor: TaskExecutor;
+  private readonly instanceStore: TaskInstanceStore;
+  private readonly templateStore: TaskTemplateStore;
+  private readonly workflowsDir: string;
+
+  constructor(
+    taskExecutor: TaskExecutor,
+    instanceStore: TaskInstanceStore,
+    templateStore: TaskTemplateStore,
+    workflowsDir: string
+  ) {
+    this.taskExecutor = taskExecutor;
+    this.instanceStore = instanceStore;
+    this.templateStore = templateStore;
+    this.workflowsDir = workflowsDir;
+  }
+
+  private workflowPath(workflowId: string): string {
+    return path.join(this.workflowsDir, `${workflowId}.yaml`);
+  }
+
+  private async save(workflow: Workflow): Promise<void> {
+    await mkdir(this.workflowsDir, { recursive: true });
+    await writeFile(this.workflowPath(workflow.workflow_id), YAML.stringify(workflow), 'utf8');
+  }
+
+  /**
+   * Create a workflow. Every node references an existing instance of the project; `depends_on`
+   * and binding sources must name other nodes (a binding implies a dependency), bound inputs must
+   * be declared by the template's inputs_schema, and the graph must be acyclic.
+   */
+  async create(projectSlug: string, specs: WorkflowNodeSpec[], options: { name?: string } = {}): Promise<Workflow> {
+    if (specs.length === 0) throw new Error('A workflow needs at least one node');
+
+    const ids = new Set<string>();
+    const instanceIds = new Set<string>();
+    for (const spec of specs) {
+      if (!/^[A-Za-z0-9._-]+$/.test(spec.id)) {
+        throw new Error(`Invalid node id '${spec.id}' (allowed: letters, numbers, dot, underscore, dash)`);
+      }
+      if (ids.has(spec.id)) throw new Error(`Duplicate node id: ${spec.id}`);
+      if (instanceIds.has(spec.instance_id)) {
+        throw new Error(`Instance ${spec.instance_id} is used by more than one node`);
+      }
+      ids.add(spec.id);
+      instanceIds.add(spec.instance_id);
+    }
+
+    const nodes: WorkflowNode[] = [];
+    for (const spec of specs) {
+      const bindings = spec.bindings ?? [];
+      const dependsOn = [...new Set([...(spec.depends_on ?? []), ...bindings.map((b) => b.from)])];
+      for (const dep of dependsOn) {
+        if (!ids.has(dep)) throw new Error(`Node ${spec.id} depends on unknown node: ${dep}`);
+        if (dep === spec.id) throw new Error(`Node ${spec.id} depends on itself`);
+      }
+
+      const instance = await this.instanceStore.getInstance(projectSlug, spec.instance_id);
+      if (instance.status === 'executed' || instance.status === 'executing') {
+        throw new Error(`Node ${spec.id}: instance ${spec.instance_id} is already ${instance.status}`);
+      }
+
+      const template = await this.templateStore.loadTemplate(instance.template_id, instance.template_version);
+      const declared = isRecord(template.inputs_schema.properties) ? template.inputs_schema.properties : undefined;
+      const boundInputs = new Set<string>();
+      for (const b of bindings) {
+        if (!b.input || !b.output) throw new Error(`Node ${spec.id}: bindings need input, from and output`);
+        if (boundInputs.has(b.input)) throw new Error(`Node ${spec.id}: input ${b.input} is bound more than once`);
+        if (declared && !Object.hasOwn(declared, b.input)) {
+          throw new Error(
+            `Node ${spec.id}: ${template.id}@${template.version} inputs_schema does not declare input '${b.input}'`
+          );
+        }
+        boundInputs.add(b.input);
+      }
+
+      nodes.push({
+        id: spec.id,
+        instance_id: spec.instance_id,
+        depends_on: dependsOn,
+        bindings: bindings.map((b) => ({ input: b.input, from: b.from, output: b.output })),
+        status: 'pending'
+      });
+    }
+
+    const workflow: Workflow = {
+      workflow_id: randomUUID(),
+      project_slug: projectSlug,
+      ...(options.name ? { name: options.name } : {}),
+      created_at: new Date().toISOString(),
+      status: 'draft',
+      order: topologicalOrder(nodes),
+      nodes
+    };
+    await this.save(workflow);
+    return workflow;
+  }
+
+  async getWorkflow(workflowId: string): Promise<Workflow> {
+    assertSafeWorkflowId(workflowId);
+    let raw: string;
+    try {
+      raw = await readFile(this.workflowPath(workflowId), 'utf8');
+    } catch (err: unknown) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') {
+        throw new Error(`Workflow '${workflowId}' not found`);
+      }
+      throw err;
+    }
+    return YAML.parse(raw) as Workflow;
+  }
+
+  /**
+   * Prepare a plan for every node in dependency order. Bound inputs stay as placeholders in the
+   * plans until execute() knows the upstream outputs. Re-preparing replaces the plans. A `failed`
+   * workflow can be prepared again to retry it: nodes that completed are kept, the rest get new plans.
+   * So can an `executing` workflow whose run was interrupted; it is marked `failed` first.
+   */
+  async prepare(workflowId: string, options: WorkflowPrepareOptions = {}): Promise<Workflow> {
+    const workflow = await this.claim(workflowId, 'preparing');
+    try {
+      const byId = new Map(workflow.nodes.map((n) => [n.id, n]));
+      for (const id of workflow.order) {
+        const node = byId.get(id)!;
+        if (node.status === 'completed') continue;
+        delete node.error;
+        const plan = await this.taskExecutor.prepareTask(workflow.project_slug, node.instance_id, {
+          actor: options.actor,
+          allowMcdDrift: options.allowMcdDrift,
+          tokenBudget: options.tokenBudget,
+          deferredInputs: node.bindings.map((b) => b.input)
+        });
+        node.plan_id = plan.plan_id;
+        node.status = 'prepared';
+        // Persist progress so a failure part-way shows which plans exist.
+        await this.save(workflow);
+      }
+
+      workflow.status = 'prepared';
+      delete workflow.error;
+      delete workflow.finished_at;
+      await this.save(workflow);
+      return workflow;
+    } finally {
+      activeWorkflows.delete(workflowId);
+    }
+  }
+
+  /**
+   * Check a workflow's status and mark it as being prepared or executed while holding its file lock,
+   * so a workflow is never prepared and executed, or executed twice, at the same time. Preparing
+   * marks a workflow left `executing` by an interrupted run as `failed` first.
+   */
+  private async claim(workflowId: string, activity: 'preparing' | 'executing'): Promise<Workflow> {
+    return withFileLock(this.workflowPath(workflowId), async () => {
+      const active = activeWorkflows.get(workflowId);
+      if (active) {
+        throw new Error(`Workflow '${workflowId}' is ${active}; wait for it to finish`);
+      }
+
+      const workflow = await this.getWorkflow(workflowId);
+      if (activity === 'preparing') {
+        if (workflow.status === 'executing') {
+          workflow.status = 'failed';
+          workflow.error = 'Execution was interrupted';
+          workflow.finished_at = new Date().toISOString();
+          await this.save(workflow);
+        }
+        if (workflow.status !== 'draft' && workflow.status !== 'prepared' && workflow.status !== 'failed') {
+          throw new Error(`Cannot prepare workflow with status: ${workflow.status}`);
+        }
+      } else {
+        if (workflow.status !== 'prepared') {
+          throw new Error(`Cannot execute workflow with status: ${workflow.status}`);
+        }
+        workflow.status = 'executing';
+        workflow.started_at = new Date().toISOString();
+        await this.save(workflow);
+      }
+
+      activeWorkflows.set(workflowId, activity);
+      return workflow;
+    });
+  }
+
+  /**
+   * Execute the prepared plans in dependency order. A node runs only when all of its
+   * dependencies completed; otherwise it is skipped. Independent branches keep running after a
+   * failure. The workflow completes only if every node did.
+   */
+  async execute(
+    workflowId: string,
+    options: WorkflowExecuteOptions = {}
+  ): Promise<{ ok: boolean; workflow: Workflow; results: string[] }> {
+    const workflow = await this.claim(workflowId, 'executing');
+    try {
+      const byId = new Map(workflow.nodes.map((n) => [n.id, n]));
+      const outputs = new Map<string, Record<string, unknown>>();
+      const results: string[] = [];
+
+      for (const id of workflow.order) {
+        const node = byId.get(id)!;
+
+        // Completed in an earlier run of a retried workflow: reuse the recorded outputs.
+        if (node.status === 'completed') {
+          const instance = await this.instanceStore.getInstance(workflow.project_slug, node.instance_id);
+          outputs.set(id, instance.outputs ?? {});
+          results.push(`[Node ${id}] already completed`);
+          continue;
+        }
+
+        const blocked = node.depends_on.filter((dep) => byId.get(dep)!.status !== 'completed');
+        if (blocked.length > 0 || options.signal?.aborted) {
+          node.status = 'skipped';
+          node.error = options.signal?.aborted
+            ? 'Workflow cancelled'
+            : `Skipped because ${blocked.join(', ')} did not complete`;
+          results.push(`[Node ${id}] skipped: ${node.error}`);
+          await this.save(workflow);
+          continue;
+        }
+
+        try {
+          const bound: Record<string, unknown> = {};
+          for (const b of node.bindings) {
+            const value = readPath(outputs.get(b.from), b.output);
+            if (value === undefined) {
+              throw new Error(`Binding ${b.input} <- ${b.from}.${b.output}: node ${b.from} has no output at '${b.output}'`);
+            }
+            bound[b.input] = value;
+          }
+
+          const result = await this.taskExecutor.executeTask(node.plan_id!, {
+            actor: options.actor,
+            allowMcdDrift: options.allowMcdDrift,
+            signal: options.signal,
+            ...(node.bindings.length > 0 ? { boundInputs: bound } : {})
+          });
+          outputs.set(id, result.plan.outputs ?? {});
+          node.status = result.ok ? 'completed' : 'failed';
+          if (!result.ok) node.error = result.plan.error;
+        } catch (err: unknown) {
+          node.status = 'failed';
+          node.error = err instanceof Error ? err.message : String(err);
+        }
+
+        results.push(node.status === 'completed' ? `[Node ${id}] completed` : `[Node ${id}] failed: ${node.error}`);
+        await this.save(workflow);
+      }
+
+      const failed = workflow.nodes.filter((n) => n.status !== 'completed').map((n) => n.id);
+      workflow.status = failed.length > 0 ? 'failed' : 'completed';
+      if (failed.length > 0) workflow.error = `Nodes did not complete: ${failed.join(', ')}`;
+      workflow.finished_at = new Date().toISOString();
+      await this.save(workflow);
+
+      return { ok: failed.length === 0, workflow, results };
+    } finally {
+      activeWorkflows.delete(workflowId);
+    }
+  }
+}
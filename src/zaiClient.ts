@@ -1,17 +1,9 @@
-export type ZaiChatMessage = {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-};
+import type { ChatMessage, ChatOptions, ChatResponse } from './llmProvider.js';
+import { openAiCompatibleChat, resetBackendState, type OpenAiCompatibleConfig } from './openAiCompatible.js';
 
-export type ZaiChatResponse = {
-  text: string;
-  raw: unknown;
-};
-
-export type ZaiChatOptions = {
-  model?: string;
-  temperature?: number;
-};
+export type ZaiChatMessage = ChatMessage;
+export type ZaiChatResponse = ChatResponse;
+export type ZaiChatOptions = ChatOptions;
 
 function getEnv(name: string): string | undefined {
   const v = process.env[name];
@@ -32,52 +24,48 @@ function getBaseUrl(): string {
   return getEnv('ZAI_BASE_URL') ?? 'https://api.z.ai/v1';
 }
 
-function getDefaultModel(): string {
+export function getDefaultZaiModel(): string {
   return getEnv('ZAI_MODEL') ?? 'z-ai';
 }
 
+export function zaiConfigured(): boolean {
+  return Boolean(getEnv('DEVPACK_CODING_PLAN_API_KEY') ?? getEnv('ZAI_API_KEY'));
+}
+
+function zaiConfig(): OpenAiCompatibleConfig {
+  return {
+    id: 'zai',
+    label: 'z.ai',
+    baseUrl: getBaseUrl(),
+    apiKey: getApiKey(),
+    defaultModel: getDefaultZaiModel(),
+    envPrefix: 'ZAI'
+  };
+}
+
+/**
+ * Forget the shared concurrency limiter and circuit breaker so the next call rebuilds them from
+ * the environment. Intended for tests.
+ */
+export function resetZaiClientState(): void {
+  resetBackendState('zai');
+}
+
+/**
+ * Call z.ai's chat completions endpoint, with retries, a concurrency limit and a circuit breaker
+ * configured by the ZAI_* environment variables (see openAiCompatibleChat).
+ */
 export async function zaiChat(
   messages: ZaiChatMessage[],
   options: ZaiChatOptions = {}
 ): Promise<ZaiChatResponse> {
-  const apiKey = getApiKey();
-  const baseUrl = getBaseUrl();
-  const model = options.model ?? getDefaultModel();
-
   // NOTE: This request/response shape is a placeholder. Update to match z.ai's actual API.
-  const url = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
-
-  const body = {
-    model,
-    messages,
-    temperature: options.temperature ?? 0.2
-  };
-
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'content-type': 'application/json',
-      authorization: `Bearer ${apiKey}`
-    },
-    body: JSON.stringify(body)
-  });
-
-  const raw = await res.json().catch(() => null);
-
-  if (!res.ok) {
-    const msg = typeof raw === 'string' ? raw : JSON.stringify(raw);
-    throw new Error(`z.ai request failed (${res.status}): ${msg}`);
-  }
-
-  // Attempt to read a commonly-used response shape.
-  const text =
-    (raw && (raw as any).choices && (raw as any).choices[0]?.message?.content) ||
-    (raw && (raw as any).output_text) ||
-    JSON.stringify(raw);
-
-  return { text, raw };
+  return openAiCompatibleChat(zaiConfig(), messages, options);
 }
 
-export async function zaiPlan(prompt: string): Promise<ZaiChatResponse> {
-  return zaiChat([{ role: 'user', content: prompt }], { temperature: 0.2 });
+export async function zaiPlan(
+  prompt: string,
+  options: Omit<ZaiChatOptions, 'model' | 'temperature'> = {}
+): Promise<ZaiChatResponse> {
+  return zaiChat([{ role: 'user', content: prompt }], { ...options, temperature: 0.2 });
 }
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, mkdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../src/server.js';
+import { MockZaiServer } from '../../src/mockZaiServer.js';
+import { resetBackendState } from '../../src/openAiCompatible.js';
+
+const ENV_KEYS = [
+  'ZAI_BASE_URL',
+  'ZAI_API_KEY',
+  'ZAI_MAX_RETRIES',
+  'ZAI_RETRY_BASE_DELAY_MS',
+  'ZAI_CIRCUIT_FAILURE_THRESHOLD',
+  'DEVPACK_CODING_PLAN_API_KEY',
+  'WARPOS_DEFAULT_PROVIDER',
+  'WARPOS_LLM_MODE'
+];
+
+function textOf(result: Awaited<ReturnType<Client['callTool']>>, index = 0): string {
+  return (result.content as Array<{ type: string; text: string }>)[index].text;
+}
+
+describe('z.ai integration (mock z.ai server)', () => {
+  const mock = new MockZaiServer();
+  const savedEnv: Record<string, string | undefined> = {};
+  let testDir: string;
+  let client: Client;
+
+  beforeAll(async () => {
+    await mock.start();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(async () => {
+    for (const key of ENV_KEYS) savedEnv[key] = process.env[key];
+    for (const key of ENV_KEYS) delete process.env[key];
+    process.env.ZAI_BASE_URL = mock.url;
+    process.env.ZAI_API_KEY = 'test-key';
+    process.env.ZAI_MAX_RETRIES = '2';
+    process.env.ZAI_RETRY_BASE_DELAY_MS = '1';
+    resetBackendState();
+    mock.reset();
+
+    testDir = await mkdtemp(path.join(tmpdir(), 'warpos-zai-test-'));
+    const server = createServer({ rootDir: testDir });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'zai-test', version: '0.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await rm(testDir, { recursive: true, force: true });
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+    resetBackendState();
+  });
+
+  it('zai_plan: sends the prompt to /chat/completions and returns the reply', async () => {
+    mock.enqueue({ content: 'Step 1: write tests' });
+
+    const result = await client.callTool({ name: 'zai_plan', arguments: { prompt: 'Plan the release' } });
+
+    expect(textOf(result)).toBe('Step 1: write tests');
+    expect(mock.requests).toHaveLength(1);
+    const [request] = mock.requests;
+    expect(request.path).toBe('/v1/chat/completions');
+    expect(request.headers.authorization).toBe('Bearer test-key');
+    expect(request.body.temperature).toBe(0.2);
+    expect(request.body.messages).toEqual([{ role: 'user', content: 'Plan the release' }]);
+  });
+
+  it('zai_plan: streams progress notifications when a progressToken is given', async () => {
+    mock.enqueue({ content: 'one two three' });
+    const fragments: string[] = [];
+
+    const result = await client.callTool({ name: 'zai_plan', arguments: { prompt: 'Plan' } }, undefined, {
+      onprogress: (progress) => fragments.push(progress.message ?? '')
+    });
+
+    expect(textOf(result)).toBe('one two three');
+    expect(mock.requests[0].body.stream).toBe(true);
+    expect(fragments.join('')).toBe('one two three');
+  });
+
+  it('domain_agent_run: sends the compiled framework as the system message', async () => {
+    const profilesDir = path.join(testDir, 'profiles', 'domains', 'test');
+    await mkdir(profilesDir, { recursive: true });
+    await writeFile(
+      path.join(profilesDir, 'reviewer.yaml'),
+      [
+        'description: Reviewer',
+        'review_context:',
+        '  checks:',
+        '    observations:',
+        '      - Check error handling on every code path',
+        ''
+      ].join('\n'),
+      'utf8'
+    );
+    mock.enqueue({ content: 'Looks good' });
+
+    const result = await client.callTool({
+      name: 'domain_agent_run',
+      arguments: { profiles: ['test/reviewer'], input: 'Review this diff', model: 'zai:glm-4.6' }
+    });
+
+    expect(textOf(result)).toBe('Looks good');
+    const messages = mock.requests[0].body.messages!;
+    expect(mock.requests[0].body.model).toBe('glm-4.6');
+    expect(messages[0].role).toBe('system');
+    expect(messages[0].content).toContain('Check error handling on every code path');
+    expect(messages[1]).toEqual({ role: 'user', content: 'Review this diff' });
+  });
+
+  it('retries a 429 and succeeds', async () => {
+    mock.failNext(429, 2).enqueue({ content: 'after retries' });
+
+    const result = await client.callTool({ name: 'zai_plan', arguments: { prompt: 'Plan' } });
+
+    expect(textOf(result)).toBe('after retries');
+    expect(mock.requests).toHaveLength(3);
+  });
+
+  it('reports a 500 once retries are exhausted', async () => {
+    mock.failNext(500, 3);
+
+    await expect(client.callTool({ name: 'zai_plan', arguments: { prompt: 'Plan' } })).rejects.toThrow(
+      /z\.ai request failed \(500\).*\[server_error after 3 attempts\]/
+    );
+    expect(mock.requests).toHaveLength(3);
+  });
+
+  it('does not retry a 4xx client error', async () => {
+    mock.enqueue({ status: 400, body: { error: 'bad model' } });
+
+    await expect(client.callTool({ name: 'zai_plan', arguments: { prompt: 'Plan' } })).rejects.toThrow(
+      /z\.ai request failed \(400\)/
+    );
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  it('treats a malformed JSON body as an invalid response and retries it', async () => {
+    mock.failNext('malformed').enqueue({ content: 'recovered' });
+
+    const result = await client.callTool({ name: 'zai_plan', arguments: { prompt: 'Plan' } });
+
+    expect(textOf(result)).toBe('recovered');
+    expect(mock.requests).toHaveLength(2);
+  });
+
+  it('reports malformed JSON once retries are exhausted', async () => {
+    process.env.ZAI_MAX_RETRIES = '0';
+    resetBackendState();
+    mock.failNext('malformed');
+
+    await expect(client.callTool({ name: 'zai_plan', arguments: { prompt: 'Plan' } })).rejects.toThrow(
+      /z\.ai returned malformed JSON \(200\)/
+    );
+  });
+
+  it('zai_plan: returns the parsed object when response_schema is given', async () => {
+    const responseSchema = {
+      type: 'object',
+      required: ['tasks'],
+      properties: { tasks: { type: 'array', items: { type: 'string' } } }
+    };
+    mock.enqueue({ content: 'Here are the tasks' }, { content: '{"tasks":["write tests","release"]}' });
+
+    const result = await client.callTool({
+      name: 'zai_plan',
+      arguments: { prompt: 'Plan the release', response_schema: responseSchema }
+    });
+
+    expect(JSON.parse(textOf(result))).toEqual({ tasks: ['write tests', 'release'] });
+    expect(mock.requests).toHaveLength(2);
+    expect(mock.requests[0].body.response_format).toEqual({ type: 'json_object' });
+    expect(mock.requests[1].body.messages!.at(-1)!.content).toContain('reply is not valid JSON');
+  });
+
+  it('domain_agent_run: reports a tool error when no reply matches response_schema', async () => {
+    await mkdir(path.join(testDir, 'profiles', 'domains', 'test'), { recursive: true });
+    await writeFile(path.join(testDir, 'profiles', 'domains', 'test', 'min.yaml'), 'description: Minimal\n', 'utf8');
+    mock.enqueue({ content: '{"verdict":1}' });
+
+    const result = await client.callTool({
+      name: 'domain_agent_run',
+      arguments: {
+        profiles: ['test/min'],
+        input: 'Review',
+        response_schema: { type: 'object', required: ['verdict'], properties: { verdict: { type: 'string' } } },
+        max_repairs: 0
+      }
+    });
+
+    expect(result.isError).toBe(true);
+    const body = JSON.parse(textOf(result));
+    expect(body).toMatchObject({
+      ok: false,
+      attempts: 1,
+      validation_errors: ['/verdict must be string'],
+      last_reply: '{"verdict":1}'
+    });
+    expect(mock.requests[0].body.messages![0].content).toContain('Respond with a single JSON value');
+  });
+
+  it('plan_decompose + plan_apply: turns a goal into task instances', async () => {
+    await mkdir(path.join(testDir, 'mcd'), { recursive: true });
+    await writeFile(path.join(testDir, 'mcd', 'demo.md'), '# Demo\n', 'utf8');
+    await mkdir(path.join(testDir, 'task-templates'), { recursive: true });
+    await writeFile(
+      path.join(testDir, 'task-templates', 'write-docs@1.yaml'),
+      [
+        'id: write-docs',
+        'version: 1',
+        'description: Write docs',
+        'inputs_schema: { type: object, required: [module], properties: { module: { type: string } } }',
+        'outputs_schema: { type: object }',
+        'steps:',
+        '  - id: write',
+        '    instruction: Document {module}',
+        ''
+      ].join('\n'),
+      'utf8'
+    );
+    mock.enqueue({
+      content: JSON.stringify({ instances: [{ template_id: 'write-docs', template_version: 1, inputs: { module: 'api' } }] })
+    });
+
+    const decomposed = JSON.parse(
+      textOf(await client.callTool({ name: 'plan_decompose', arguments: { goal: 'Document the API', project_slug: 'demo' } }))
+    );
+    const applied = JSON.parse(
+      textOf(await client.callTool({ name: 'plan_apply', arguments: { proposal_id: decomposed.proposal_id } }))
+    );
+
+    expect(decomposed.proposal.instances).toEqual([
+      { template_id: 'write-docs', template_version: 1, inputs: { module: 'api' }, domain_profiles: [] }
+    ]);
+    expect(mock.requests[0].body.response_format).toEqual({ type: 'json_object' });
+    expect(applied.instance_ids).toHaveLength(1);
+    expect(applied.instances[0]).toMatchObject({ project_slug: 'demo', template_id: 'write-docs', inputs: { module: 'api' } });
+  });
+});
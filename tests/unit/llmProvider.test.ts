@@ -0,0 +1,106 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ProviderRegistry, type LlmProvider } from '../../src/llmProvider.js';
+import { createDefaultProviderRegistry } from '../../src/providers.js';
+import { resetBackendState } from '../../src/openAiCompatible.js';
+
+function fakeProvider(id: string, streaming = true) {
+  const calls: Array<{ method: string; model?: string }> = [];
+  const provider: LlmProvider = {
+    id,
+    capabilities: () => ({ streaming, local: false }),
+    defaultModel: () => `${id}-default`,
+    configured: () => true,
+    chat: async (_messages, options = {}) => {
+      calls.push({ method: 'chat', model: options.model });
+      return { text: `${id} reply`, raw: null };
+    },
+    stream: async (_messages, options) => {
+      calls.push({ method: 'stream', model: options.model });
+      options.onDelta(`${id} `, `${id} `);
+      options.onDelta('reply', `${id} reply`);
+      return { text: `${id} reply`, raw: null };
+    }
+  };
+  return { provider, calls };
+}
+
+describe('ProviderRegistry', () => {
+  const a = fakeProvider('alpha');
+  const b = fakeProvider('beta', false);
+  const registry = new ProviderRegistry(() => 'alpha').register(a.provider).register(b.provider);
+
+  it('routes provider:model to the named provider', () => {
+    expect(registry.resolve('beta:big-model')).toEqual({ provider: b.provider, model: 'big-model' });
+    expect(registry.resolve('beta:')).toEqual({ provider: b.provider, model: undefined });
+  });
+
+  it('keeps unknown prefixes as part of the model name on the default provider', () => {
+    expect(registry.resolve('llama3:8b')).toEqual({ provider: a.provider, model: 'llama3:8b' });
+    expect(registry.resolve(undefined)).toEqual({ provider: a.provider, model: undefined });
+  });
+
+  it('rejects an unknown default provider', () => {
+    const broken = new ProviderRegistry(() => 'missing').register(a.provider);
+    expect(() => broken.resolve('x')).toThrow("Unknown LLM provider 'missing'. Available: alpha");
+  });
+
+  it('streams when the provider can, and falls back to one delta when it cannot', async () => {
+    const deltas: string[] = [];
+    const onDelta = (d: string) => deltas.push(d);
+
+    await registry.chat([{ role: 'user', content: 'hi' }], { model: 'alpha:m', stream: true, onDelta });
+    await registry.chat([{ role: 'user', content: 'hi' }], { model: 'beta:m', stream: true, onDelta });
+
+    expect(a.calls.at(-1)).toEqual({ method: 'stream', model: 'm' });
+    expect(b.calls.at(-1)).toEqual({ method: 'chat', model: 'm' });
+    expect(deltas).toEqual(['alpha ', 'reply', 'beta reply']);
+  });
+});
+
+describe('built-in providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    resetBackendState();
+    for (const name of ['OPENAI_API_KEY', 'OPENAI_BASE_URL', 'LOCAL_LLM_BASE_URL', 'WARPOS_DEFAULT_PROVIDER']) {
+      delete process.env[name];
+    }
+  });
+
+  const reply = () => Response.json({ choices: [{ message: { content: 'ok' } }] });
+
+  it('sends openai: models to OPENAI_BASE_URL with the OpenAI key', async () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    process.env.OPENAI_BASE_URL = 'http://openai.test/v1/';
+    const fetchMock = vi.fn(async () => reply());
+    vi.stubGlobal('fetch', fetchMock);
+
+    await createDefaultProviderRegistry().chat([{ role: 'user', content: 'hi' }], { model: 'openai:gpt-test' });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://openai.test/v1/chat/completions');
+    expect((init.headers as Record<string, string>).authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(init.body as string).model).toBe('gpt-test');
+  });
+
+  it('requires OPENAI_API_KEY for the openai provider', async () => {
+    vi.stubGlobal('fetch', vi.fn());
+
+    await expect(
+      createDefaultProviderRegistry().chat([{ role: 'user', content: 'hi' }], { model: 'openai:gpt-test' })
+    ).rejects.toThrow('Set OPENAI_API_KEY');
+  });
+
+  it('sends local models without an API key, keeping colons in the model name', async () => {
+    process.env.LOCAL_LLM_BASE_URL = 'http://localhost:8080/v1';
+    process.env.WARPOS_DEFAULT_PROVIDER = 'local';
+    const fetchMock = vi.fn(async () => reply());
+    vi.stubGlobal('fetch', fetchMock);
+
+    await createDefaultProviderRegistry().chat([{ role: 'user', content: 'hi' }], { model: 'llama3:8b' });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect((init.headers as Record<string, string>).authorization).toBeUndefined();
+    expect(JSON.parse(init.body as string).model).toBe('llama3:8b');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { ProviderRegistry, type LlmProvider } from '../../src/llmProvider.js';
+import { LlmRecorder, llmModeFromEnv } from '../../src/llmRecorder.js';
+
+const messages = [{ role: 'user' as const, content: 'Plan the work' }];
+
+describe('LlmRecorder', () => {
+  let dir: string;
+  let calls: number;
+  let registry: ProviderRegistry;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'warpos-recordings-'));
+    calls = 0;
+    const provider: LlmProvider = {
+      id: 'fake',
+      capabilities: () => ({ streaming: false, local: true }),
+      defaultModel: () => 'fake-default',
+      configured: () => true,
+      chat: async () => ({ text: `reply ${++calls}`, raw: { n: calls } }),
+      stream: async () => {
+        throw new Error('not used');
+      }
+    };
+    registry = new ProviderRegistry(() => 'fake').register(provider);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+    delete process.env.WARPOS_LLM_MODE;
+  });
+
+  it('records responses keyed by model, temperature and messages', async () => {
+    const recorder = new LlmRecorder(registry, { mode: 'record', dir });
+
+    const out = await recorder.chat(messages, { temperature: 0 });
+
+    const { key } = recorder.requestKey(messages, { temperature: 0 });
+    const stored = JSON.parse(await readFile(recorder.recordingPath(key), 'utf8'));
+    expect(out.text).toBe('reply 1');
+    expect(stored.request).toEqual({ model: 'fake:fake-default', temperature: 0, response_format: 'text', messages });
+    expect(stored.response).toEqual({ text: 'reply 1', raw: { n: 1 } });
+  });
+
+  it('replays recorded responses without calling the provider', async () => {
+    await new LlmRecorder(registry, { mode: 'record', dir }).chat(messages, { temperature: 0 });
+    const replay = new LlmRecorder(registry, { mode: 'replay', dir });
+    const deltas: string[] = [];
+
+    // The unprefixed default model and streaming options resolve to the same recording.
+    const out = await replay.chat(messages, {
+      model: 'fake:',
+      temperature: 0,
+      stream: true,
+      onDelta: (d) => deltas.push(d)
+    });
+
+    expect(out.text).toBe('reply 1');
+    expect(deltas).toEqual(['reply 1']);
+    expect(calls).toBe(1);
+  });
+
+  it('fails in replay mode when nothing was recorded', async () => {
+    const replay = new LlmRecorder(registry, { mode: 'replay', dir });
+
+    await expect(replay.chat(messages, { temperature: 0.7 })).rejects.toThrow(
+      /^No recorded response for fake:fake-default \(key [0-9a-f]{12}\)/
+    );
+    expect(calls).toBe(0);
+  });
+
+  it('uses separate recordings for different temperatures, response formats or messages', () => {
+    const recorder = new LlmRecorder(registry, { mode: 'record', dir });
+    const base = recorder.requestKey(messages, { temperature: 0 }).key;
+
+    expect(recorder.requestKey(messages, { temperature: 0.2 }).key).not.toBe(base);
+    expect(recorder.requestKey(messages, { temperature: 0, responseFormat: 'json' }).key).not.toBe(base);
+    expect(recorder.requestKey(messages, { temperature: 0, responseFormat: 'text' }).key).toBe(base);
+    expect(recorder.requestKey(messages, { temperature: 0, stream: true, timeoutMs: 5 }).key).toBe(base);
+    expect(recorder.requestKey([{ role: 'user', content: 'Other' }], { temperature: 0 }).key).not.toBe(base);
+    expect(recorder.requestKey(messages, { temperature: 0, model: 'fake:other' }).key).not.toBe(base);
+  });
+
+  it('stores nothing in live mode', async () => {
+    await new LlmRecorder(registry, { mode: 'live', dir }).chat(messages);
+
+    expect(await readdir(dir)).toEqual([]);
+    expect(calls).toBe(1);
+  });
+
+  it('reads the mode from WARPOS_LLM_MODE', () => {
+    expect(llmModeFromEnv()).toBe('live');
+    process.env.WARPOS_LLM_MODE = 'Replay';
+    expect(llmModeFromEnv()).toBe('replay');
+    process.env.WARPOS_LLM_MODE = 'offline';
+    expect(() => llmModeFromEnv()).toThrow('WARPOS_LLM_MODE must be one of: live, record, replay');
+  });
+});
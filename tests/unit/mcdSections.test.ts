@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findSections,
+  flattenSections,
+  parseMcd,
+  parseSelector,
+  selectSections
+} from '../../src/mcdSections.js';
+
+const MCD = `---
+owner: platform
+stack:
+  runtime: node
+---
+# TODO API
+
+Intro text.
+
+## Core Requirements
+
+### Endpoints
+
+- GET /api/todos
+
+### Data Model
+
+\`\`\`markdown
+# Not a heading
+\`\`\`
+
+## Technology Stack
+
+- Express
+`;
+
+describe('mcdSections', () => {
+  describe('parseSelector()', () => {
+    it('splits on unescaped slashes', () => {
+      expect(parseSelector('Core Requirements/Endpoints')).toEqual(['Core Requirements', 'Endpoints']);
+      expect(parseSelector('GET \\/api\\/todos')).toEqual(['GET /api/todos']);
+    });
+  });
+
+  describe('parseMcd()', () => {
+    it('parses frontmatter and the heading tree, ignoring headings in code fences', () => {
+      const doc = parseMcd(MCD);
+
+      expect(doc.frontmatter).toEqual({ owner: 'platform', stack: { runtime: 'node' } });
+      expect(flattenSections(doc).map((s) => s.selector)).toEqual([
+        'TODO API',
+        'TODO API/Core Requirements',
+        'TODO API/Core Requirements/Endpoints',
+        'TODO API/Core Requirements/Data Model',
+        'TODO API/Technology Stack'
+      ]);
+    });
+
+    it('names the MCD when its frontmatter is not valid YAML', () => {
+      expect(() => parseMcd('---\nowner: [platform\n---\n# API\n', "MCD 'todo-api'")).toThrow(
+        /^MCD 'todo-api' has invalid YAML frontmatter: /
+      );
+    });
+
+    it('includes subsections in a section and trims trailing blank lines', () => {
+      const doc = parseMcd(MCD);
+      const core = doc.sections[0].children[0];
+
+      expect(core.markdown).toContain('### Endpoints');
+      expect(core.markdown).toContain('### Data Model');
+      expect(core.markdown).not.toContain('Technology Stack');
+      expect(core.markdown.endsWith('```')).toBe(true);
+    });
+
+    it('escapes slashes in titles when building selectors', () => {
+      const doc = parseMcd('# API\n\n## GET /api/todos\n\nList.\n');
+
+      expect(flattenSections(doc)[1].selector).toBe('API/GET \\/api\\/todos');
+    });
+  });
+
+  describe('findSections()', () => {
+    it('matches a path suffix case-insensitively', () => {
+      const doc = parseMcd(MCD);
+
+      const found = findSections(doc, 'core requirements/ENDPOINTS');
+
+      expect(found.map((s) => s.selector)).toEqual(['TODO API/Core Requirements/Endpoints']);
+    });
+
+    it('supports * for a single heading', () => {
+      const doc = parseMcd(MCD);
+
+      expect(findSections(doc, 'Core Requirements/*')).toHaveLength(2);
+    });
+  });
+
+  describe('selectSections()', () => {
+    it('returns markdown slices and skips matches nested in other matches', () => {
+      const doc = parseMcd(MCD);
+
+      const out = selectSections(doc, ['Core Requirements', 'Endpoints', 'Technology Stack']);
+
+      expect(out.map((s) => s.selector)).toEqual(['TODO API/Core Requirements', 'TODO API/Technology Stack']);
+      expect(out[1].markdown).toBe('## Technology Stack\n\n- Express');
+    });
+
+    it('includes each slice once when selectors overlap', () => {
+      const doc = parseMcd(MCD);
+
+      const out = selectSections(doc, [
+        'Core Requirements/Endpoints',
+        'Technology Stack',
+        'TODO API/Technology Stack',
+        'Core Requirements',
+        '@frontmatter/owner',
+        '@frontmatter'
+      ]);
+
+      expect(out.map((s) => s.selector)).toEqual([
+        'TODO API/Technology Stack',
+        'TODO API/Core Requirements',
+        '@frontmatter'
+      ]);
+    });
+
+    it('selects frontmatter keys', () => {
+      const doc = parseMcd(MCD);
+
+      const out = selectSections(doc, ['@frontmatter/stack']);
+
+      expect(out).toEqual([{ selector: '@frontmatter/stack', markdown: '---\nstack:\n  runtime: node\n---' }]);
+    });
+
+    it('throws listing available selectors when a selector matches nothing', () => {
+      const doc = parseMcd(MCD);
+
+      expect(() => selectSections(doc, ['Deployment'])).toThrow(
+        'MCD selector(s) matched no section: Deployment. Available: @frontmatter, TODO API,'
+      );
+    });
+  });
+});
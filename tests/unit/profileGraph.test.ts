@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { buildProfileGraph, profileGraphToDot, profileGraphToMermaid } from '../../src/profileGraph.js';
+import type { ResolvedProfile } from '../../src/profileStore.js';
+
+const resolved: ResolvedProfile[] = [
+  {
+    id: 'example/base',
+    filePath: 'base.yaml',
+    profile: { description: 'Base' },
+    groups: [{ groupPath: 'context', observations: ['Validate inputs', 'Write tests'] }]
+  },
+  {
+    id: 'example/app',
+    filePath: 'app.yaml',
+    profile: {
+      relations: [
+        { target: 'example/base', type: 'inherits' },
+        { target: 'example/legacy', type: 'conflicts_with' }
+      ]
+    },
+    groups: [{ groupPath: 'review', observations: ['Ask for review'] }]
+  }
+];
+
+// 4 characters per token.
+const graph = buildProfileGraph(resolved, (p) => 'x'.repeat(p.groups.length * 40));
+
+describe('profile graph', () => {
+  it('builds nodes with counts and token estimates, and one edge per relation', () => {
+    expect(graph).toEqual({
+      nodes: [
+        { id: 'example/base', applied: true, observations: 2, tokens: 10 },
+        { id: 'example/app', applied: true, observations: 1, tokens: 10 },
+        { id: 'example/legacy', applied: false, observations: 0, tokens: 0 }
+      ],
+      edges: [
+        { from: 'example/app', to: 'example/base', type: 'inherits' },
+        { from: 'example/app', to: 'example/legacy', type: 'conflicts_with' }
+      ]
+    });
+  });
+
+  it('exports Graphviz DOT', () => {
+    expect(profileGraphToDot(graph)).toBe(
+      [
+        'digraph profiles {',
+        '  rankdir=BT;',
+        '  node [shape=box];',
+        '  "example/base" [label="example/base\\n2 observations, ~10 tokens"];',
+        '  "example/app" [label="example/app\\n1 observations, ~10 tokens"];',
+        '  "example/legacy" [label="example/legacy", style=dashed];',
+        '  "example/app" -> "example/base";',
+        '  "example/app" -> "example/legacy" [label="conflicts_with", color=red, style=dashed];',
+        '}'
+      ].join('\n')
+    );
+  });
+
+  it('escapes backslashes and quotes in DOT ids and labels', () => {
+    const odd = profileGraphToDot({
+      nodes: [{ id: 'a\\b"c', applied: true, observations: 1, tokens: 2 }],
+      edges: []
+    });
+    expect(odd.split('\n')[3]).toBe('  "a\\\\b\\"c" [label="a\\\\b\\"c\\n1 observations, ~2 tokens"];');
+  });
+
+  it('exports a Mermaid flowchart', () => {
+    expect(profileGraphToMermaid(graph)).toBe(
+      [
+        'flowchart BT',
+        '  p0["example/base<br/>2 observations, ~10 tokens"]',
+        '  p1["example/app<br/>1 observations, ~10 tokens"]',
+        '  p2["example/legacy"]',
+        '  p1 --> p0',
+        '  p1 -. conflicts_with .-> p2',
+        '  style p2 stroke-dasharray: 5 5'
+      ].join('\n')
+    );
+  });
+});
@@ -110,6 +110,26 @@ describe('DomainProfileStore', () => {
 
       expect(result).toEqual(['profile']);
     });
+
+    it('leaves out deprecated profiles unless asked, and lists unreadable ones', async () => {
+      vi.mocked(fs.stat).mockResolvedValue({
+        isDirectory: () => true
+      } as any);
+
+      vi.mocked(fs.readdir).mockResolvedValue([
+        { name: 'current.yaml', isDirectory: () => false, isFile: () => true },
+        { name: 'old.yaml', isDirectory: () => false, isFile: () => true },
+        { name: 'broken.yaml', isDirectory: () => false, isFile: () => true }
+      ] as any);
+      vi.mocked(fs.readFile).mockImplementation(async (filePath: any) => {
+        if (filePath.includes('old.yaml')) return 'description: Old\ndeprecated: true';
+        if (filePath.includes('current.yaml')) return 'description: Current';
+        throw new Error('EACCES');
+      });
+
+      await expect(store.listProfileIds()).resolves.toEqual(['broken', 'current']);
+      await expect(store.listProfileIds({ includeDeprecated: true })).resolves.toEqual(['broken', 'current', 'old']);
+    });
   });
 
   describe('loadProfile()', () => {
@@ -178,6 +198,14 @@ context:
       );
     });
 
+    it('throws error when profile does not match the profile schema', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue('relations:\n  - target: base\n    type: extends\ncontext: text');
+
+      await expect(store.loadProfile('invalid')).rejects.toThrow(
+        'Domain profile invalid failed validation: /context must be object, /relations/0/type must be equal to one of the allowed values'
+      );
+    });
+
     it('handles profile with no observations', async () => {
       const yamlContent = `description: Minimal profile`;
       vi.mocked(fs.readFile).mockResolvedValue(yamlContent);
@@ -341,7 +369,7 @@ relations:
       });
 
       await expect(store.resolveProfiles(['a'])).rejects.toThrow(
-        'Cycle detected in domain profile inheritance'
+        'Cycle detected in domain profile inheritance: a -> b -> c -> a'
       );
     });
 
@@ -362,6 +390,215 @@ relations:
       expect(result[0].id).toBe('profile1');
       expect(result[1].id).toBe('profile2');
     });
+
+    it('merges inherited groups: append, replace, remove and overrides by id', async () => {
+      vi.mocked(fs.readFile).mockImplementation(async (path: any) => {
+        if (path.includes('derived.yaml')) {
+          return `relations:
+  - target: base
+    type: inherits
+context:
+  observations:
+    - Derived context
+    - { id: style, text: Use tabs }
+    - { id: tests, remove: true }
+methodology:
+  merge: replace
+  observations:
+    - Ship small changes
+legacy:
+  merge: remove`;
+        }
+        if (path.includes('base.yaml')) {
+          return `context:
+  observations:
+    - Base context
+    - { id: style, text: Use spaces }
+    - { id: tests, text: Write tests first }
+methodology:
+  observations:
+    - Plan everything up front
+legacy:
+  observations:
+    - Support IE11`;
+        }
+        throw new Error('Unexpected file');
+      });
+
+      const result = await store.resolveProfiles(['derived']);
+
+      expect(result.map((p) => [p.id, p.groups])).toEqual([
+        ['base', [{ groupPath: 'context', observations: ['Base context'] }]],
+        [
+          'derived',
+          [
+            { groupPath: 'context', observations: ['Derived context', 'Use tabs'] },
+            { groupPath: 'methodology', observations: ['Ship small changes'] }
+          ]
+        ]
+      ]);
+
+      const effective = await store.effectiveFramework(['derived']);
+      expect(effective.groups).toEqual([
+        {
+          group: 'context',
+          observations: [
+            { text: 'Base context', profile: 'base' },
+            { text: 'Derived context', profile: 'derived' },
+            { text: 'Use tabs', profile: 'derived', id: 'style' }
+          ]
+        },
+        { group: 'methodology', observations: [{ text: 'Ship small changes', profile: 'derived' }] }
+      ]);
+      expect(effective.dropped).toEqual([
+        { text: 'Write tests first', profile: 'base', id: 'tests', group: 'context', dropped_by: 'derived', reason: 'removed' },
+        { text: 'Use spaces', profile: 'base', id: 'style', group: 'context', dropped_by: 'derived', reason: 'overridden' },
+        { text: 'Plan everything up front', profile: 'base', group: 'methodology', dropped_by: 'derived', reason: 'replaced' },
+        { text: 'Support IE11', profile: 'base', group: 'legacy', dropped_by: 'derived', reason: 'removed' }
+      ]);
+    });
+
+    it('applies merge operations only along each entry profile\'s own inheritance chain', async () => {
+      vi.mocked(fs.readFile).mockImplementation(async (path: any) => {
+        if (path.includes('frontend.yaml')) {
+          return `context:
+  observations:
+    - { id: style, text: Use Prettier }
+    - Prefer function components`;
+        }
+        if (path.includes('strict.yaml')) {
+          return `relations:
+  - target: base
+    type: inherits
+context:
+  merge: replace
+  observations:
+    - { id: style, text: Use the house style guide }`;
+        }
+        if (path.includes('base.yaml')) {
+          return `context:
+  observations:
+    - Keep functions small`;
+        }
+        throw new Error('Unexpected file');
+      });
+
+      const effective = await store.effectiveFramework(['frontend', 'strict']);
+
+      expect(effective.groups).toEqual([
+        {
+          group: 'context',
+          observations: [
+            { text: 'Use Prettier', profile: 'frontend', id: 'style' },
+            { text: 'Prefer function components', profile: 'frontend' },
+            { text: 'Use the house style guide', profile: 'strict', id: 'style' }
+          ]
+        }
+      ]);
+      expect(effective.dropped).toEqual([
+        { text: 'Keep functions small', profile: 'base', group: 'context', dropped_by: 'strict', reason: 'replaced' }
+      ]);
+    });
+  });
+
+  describe('relation types', () => {
+    const mockProfiles = (files: Record<string, string>) => {
+      vi.mocked(fs.readFile).mockImplementation(async (filePath: any) => {
+        const id = path.relative(mockBaseDir, String(filePath)).replace(/\.yaml$/, '');
+        if (id in files) return files[id];
+        throw new Error('Unexpected file');
+      });
+    };
+
+    it('merges higher-priority inherits later so they win', async () => {
+      mockProfiles({
+        app: `relations:
+  - { target: strict, type: inherits, priority: 10 }
+  - { target: relaxed, type: inherits }`,
+        strict: `style:
+  observations:
+    - { id: lint, text: Fail on warnings }`,
+        relaxed: `style:
+  observations:
+    - { id: lint, text: Allow warnings }`
+      });
+
+      const result = await store.resolveProfiles(['app']);
+
+      expect(result.map((p) => p.id)).toEqual(['relaxed', 'strict', 'app']);
+      expect(result.flatMap((p) => p.groups.flatMap((g) => g.observations))).toEqual(['Fail on warnings']);
+    });
+
+    it('composes only the selected groups of the target', async () => {
+      mockProfiles({
+        app: `relations:
+  - { target: toolbox, type: composes, groups: [testing] }
+context:
+  observations:
+    - App context`,
+        toolbox: `relations:
+  - { target: base, type: inherits }
+testing:
+  unit:
+    observations:
+      - Mock the file system
+review:
+  observations:
+    - Ask for two approvals`
+      });
+
+      const result = await store.resolveProfiles(['app']);
+
+      // Composing does not pull in the target's own ancestors.
+      expect(result.map((p) => [p.id, p.groups.map((g) => g.groupPath)])).toEqual([
+        ['toolbox', ['testing.unit']],
+        ['app', ['context']]
+      ]);
+    });
+
+    it('rejects composes groups the target does not have', async () => {
+      mockProfiles({
+        app: `relations:
+  - { target: toolbox, type: composes, groups: [deploy] }`,
+        toolbox: `testing:
+  observations:
+    - Mock the file system`
+      });
+
+      await expect(store.resolveProfiles(['app'])).rejects.toThrow(
+        "Profile app composes toolbox, which has no group 'deploy' (chain: app)"
+      );
+    });
+
+    it('fails when a required profile is not applied', async () => {
+      mockProfiles({
+        app: `relations:
+  - { target: web, type: inherits }`,
+        web: `relations:
+  - { target: security, type: requires }`,
+        security: 'description: Security'
+      });
+
+      await expect(store.resolveProfiles(['app'])).rejects.toThrow(
+        'Profile web requires security, which is not applied (chain: app -> web)'
+      );
+      await expect(store.resolveProfiles(['app', 'security'])).resolves.toHaveLength(3);
+    });
+
+    it('fails when conflicting profiles are both applied', async () => {
+      mockProfiles({
+        app: `relations:
+  - { target: web, type: inherits }`,
+        web: `relations:
+  - { target: legacy, type: conflicts_with }`,
+        legacy: 'description: Legacy'
+      });
+
+      await expect(store.resolveProfiles(['app'])).resolves.toHaveLength(2);
+      await expect(store.resolveProfiles(['legacy', 'app'])).rejects.toThrow(
+        'Profile web conflicts with legacy, but both are applied (chains: app -> web; legacy)'
+      );
+    });
   });
 
   describe('compileFrameworkPrompt()', () => {
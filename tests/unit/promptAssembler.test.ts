@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { DomainProfileStore, type ResolvedProfile } from '../../src/profileStore.js';
+import {
+  FRAMEWORK_PREAMBLE,
+  estimateTokens,
+  fitFrameworkToBudget,
+  parseTokenBudget,
+  tokenBudgetFromEnv
+} from '../../src/promptAssembler.js';
+
+const store = new DomainProfileStore('/unused');
+const compile = (profiles: ResolvedProfile[]) => store.compileFrameworkPrompt(profiles);
+
+function profile(id: string, groups: Record<string, string[]>): ResolvedProfile {
+  return {
+    id,
+    filePath: `/unused/${id}.yaml`,
+    profile: {},
+    groups: Object.entries(groups).map(([groupPath, observations]) => ({ groupPath, observations }))
+  };
+}
+
+const obs = (prefix: string, n: number) =>
+  Array.from({ length: n }, (_, i) => `${prefix} observation number ${i + 1} with some padding text`);
+
+describe('promptAssembler', () => {
+  afterEach(() => {
+    delete process.env.WARPOS_PROMPT_TOKEN_BUDGET;
+  });
+
+  describe('estimateTokens()', () => {
+    it('estimates about four characters per token, rounding up', () => {
+      expect(estimateTokens('')).toBe(0);
+      expect(estimateTokens('abcd')).toBe(1);
+      expect(estimateTokens('abcde')).toBe(2);
+    });
+  });
+
+  describe('parseTokenBudget()', () => {
+    it('accepts positive integers and numeric strings', () => {
+      expect(parseTokenBudget(undefined, 'b')).toBeUndefined();
+      expect(parseTokenBudget(4000, 'b')).toBe(4000);
+      expect(parseTokenBudget(' 4000 ', 'b')).toBe(4000);
+    });
+
+    it('rejects non-positive or fractional values', () => {
+      expect(() => parseTokenBudget(0, 'token_budget')).toThrow('token_budget must be a positive integer');
+      expect(() => parseTokenBudget('1.5', 'token_budget')).toThrow('token_budget must be a positive integer');
+    });
+
+    it('reads the default from WARPOS_PROMPT_TOKEN_BUDGET', () => {
+      expect(tokenBudgetFromEnv()).toBeUndefined();
+      process.env.WARPOS_PROMPT_TOKEN_BUDGET = '1200';
+      expect(tokenBudgetFromEnv()).toBe(1200);
+    });
+  });
+
+  describe('fitFrameworkToBudget()', () => {
+    const profiles = [
+      profile('base', { context: obs('base context', 5), methodology: obs('base method', 5) }),
+      profile('derived', { context: obs('derived context', 5) })
+    ];
+
+    it('leaves the framework unchanged when it fits', () => {
+      const fitted = fitFrameworkToBudget(profiles, { budget: 100_000, reservedTokens: 10, compile });
+
+      expect(fitted.framework).toBe(compile(profiles));
+      expect(fitted.report.trimmed).toEqual([]);
+      expect(fitted.report.over_budget).toBe(false);
+      expect(fitted.report.estimated_tokens).toBe(10 + estimateTokens(FRAMEWORK_PREAMBLE + compile(profiles)));
+    });
+
+    it('summarizes the base profile\'s last group first', () => {
+      const full = 10 + estimateTokens(FRAMEWORK_PREAMBLE + compile(profiles));
+      const fitted = fitFrameworkToBudget(profiles, { budget: full - 20, reservedTokens: 10, compile });
+
+      expect(fitted.report.trimmed).toEqual([
+        expect.objectContaining({ profile: 'base', group: 'methodology', action: 'summarized' })
+      ]);
+      expect(fitted.framework).toContain('base method observation number 1');
+      expect(fitted.framework).not.toContain('base method observation number 2');
+      expect(fitted.framework).toContain('(4 more observations omitted to fit the token budget)');
+      expect(fitted.framework).toContain('derived context observation number 5');
+      expect(fitted.report.estimated_tokens).toBeLessThanOrEqual(full - 20);
+    });
+
+    it('drops groups only after every group has been summarized', () => {
+      const fitted = fitFrameworkToBudget(profiles, { budget: 120, reservedTokens: 10, compile });
+
+      const actions = fitted.report.trimmed.map((t) => `${t.profile}:${t.group}:${t.action}`);
+      expect(actions).toContain('base:methodology:dropped');
+      expect(actions).toContain('derived:context:summarized');
+      expect(fitted.framework).toContain('# Profile: derived');
+      expect(fitted.framework).not.toContain('## methodology');
+    });
+
+    it('reports over_budget when reserved content alone exceeds the budget', () => {
+      const fitted = fitFrameworkToBudget(profiles, { budget: 50, reservedTokens: 100, compile });
+
+      expect(fitted.report.over_budget).toBe(true);
+      expect(fitted.report.trimmed.every((t) => t.action === 'dropped' && t.tokens_after === 0)).toBe(true);
+      expect(fitted.profiles.every((p) => p.groups.length === 0)).toBe(true);
+    });
+
+    it('does not modify the input profiles', () => {
+      const before = compile(profiles);
+      fitFrameworkToBudget(profiles, { budget: 50, reservedTokens: 100, compile });
+
+      expect(compile(profiles)).toBe(before);
+    });
+  });
+});
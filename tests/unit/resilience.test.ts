@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CircuitBreaker,
+  ConcurrencyLimiter,
+  ModelRequestError,
+  backoffDelay,
+  classifyStatus,
+  parseRetryAfter,
+  withRetry
+} from '../../src/resilience.js';
+
+const policy = { maxRetries: 2, baseDelayMs: 100, maxDelayMs: 1000 };
+const noSleep = async () => {};
+
+describe('resilience', () => {
+  describe('classifyStatus()', () => {
+    it('separates rate limits, transient and client errors', () => {
+      expect(classifyStatus(429)).toBe('rate_limited');
+      expect(classifyStatus(503)).toBe('server_error');
+      expect(classifyStatus(408)).toBe('server_error');
+      expect(classifyStatus(404)).toBe('client_error');
+    });
+  });
+
+  describe('parseRetryAfter()', () => {
+    it('parses delta-seconds and HTTP dates', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+      expect(parseRetryAfter('2', now)).toBe(2000);
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
+  });
+
+  describe('backoffDelay()', () => {
+    it('grows exponentially up to the cap, scaled by jitter', () => {
+      expect(backoffDelay(policy, 1, () => 1)).toBe(100);
+      expect(backoffDelay(policy, 3, () => 1)).toBe(400);
+      expect(backoffDelay(policy, 10, () => 1)).toBe(1000);
+      expect(backoffDelay(policy, 3, () => 0.5)).toBe(200);
+    });
+  });
+
+  describe('withRetry()', () => {
+    it('waits for Retry-After instead of the backoff delay', async () => {
+      const delays: number[] = [];
+      let calls = 0;
+
+      const out = await withRetry(
+        async () => {
+          if (++calls === 1) throw new ModelRequestError('slow down', { classification: 'rate_limited', retryAfterMs: 700 });
+          return 'ok';
+        },
+        { policy, sleep: async (ms) => void delays.push(ms) }
+      );
+
+      expect(out).toBe('ok');
+      expect(delays).toEqual([700]);
+    });
+
+    it('gives up when Retry-After exceeds maxDelayMs', async () => {
+      const err = await withRetry(
+        async () => {
+          throw new ModelRequestError('slow down', { classification: 'rate_limited', retryAfterMs: 5000 });
+        },
+        { policy, sleep: noSleep }
+      ).catch((e: unknown) => e);
+
+      expect((err as Error).message).toBe(
+        'slow down [rate_limited after 1 attempt; Retry-After 5000ms exceeds the 1000ms limit]'
+      );
+    });
+
+    it('rethrows errors that are not ModelRequestError unchanged', async () => {
+      const boom = new Error('boom');
+      await expect(withRetry(async () => Promise.reject(boom), { policy, sleep: noSleep })).rejects.toBe(boom);
+    });
+  });
+
+  describe('ConcurrencyLimiter', () => {
+    it('queues calls beyond the limit', async () => {
+      const limiter = new ConcurrencyLimiter(1);
+      const order: string[] = [];
+      let release!: () => void;
+      const gate = new Promise<void>((r) => (release = r));
+
+      const first = limiter.run(async () => {
+        order.push('first:start');
+        await gate;
+        order.push('first:end');
+      });
+      const second = limiter.run(async () => void order.push('second'));
+
+      expect(limiter.pending).toBe(1);
+      release();
+      await Promise.all([first, second]);
+
+      expect(order).toEqual(['first:start', 'first:end', 'second']);
+    });
+
+    it('drops a queued call when its signal aborts', async () => {
+      const limiter = new ConcurrencyLimiter(1);
+      let release!: () => void;
+      const first = limiter.run(() => new Promise<void>((r) => (release = r)));
+      const controller = new AbortController();
+
+      const queued = limiter.run(async () => 'never', controller.signal);
+      controller.abort();
+
+      await expect(queued).rejects.toThrow();
+      expect(limiter.pending).toBe(0);
+      release();
+      await first;
+    });
+  });
+
+  describe('CircuitBreaker', () => {
+    it('opens after the threshold, then lets one trial through after the cooldown', () => {
+      let now = 0;
+      const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000, now: () => now });
+
+      breaker.recordFailure();
+      expect(breaker.state).toBe('closed');
+      breaker.recordFailure();
+      expect(breaker.state).toBe('open');
+      expect(breaker.acquire()).toBe(1000);
+
+      now = 1000;
+      expect(breaker.acquire()).toBe(0);
+      expect(breaker.acquire()).toBeGreaterThan(0); // Only one trial at a time.
+
+      breaker.recordFailure();
+      expect(breaker.state).toBe('open');
+
+      now = 2000;
+      expect(breaker.acquire()).toBe(0);
+      breaker.recordSuccess();
+      expect(breaker.state).toBe('closed');
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { conditionInputs, evaluateCondition, parseCondition } from '../../src/stepConditions.js';
+
+const when = (expr: string, inputs: Record<string, unknown>) => evaluateCondition(parseCondition(expr), inputs);
+
+describe('step conditions', () => {
+  it('treats a bare input as "provided"', () => {
+    expect(when('request_body_schema', { request_body_schema: { type: 'object' } })).toBe(true);
+    expect(when('request_body_schema', {})).toBe(false);
+    expect(when('tags', { tags: [] })).toBe(false);
+    expect(when('requires_auth', { requires_auth: false })).toBe(false);
+  });
+
+  it('compares inputs with literals', () => {
+    const inputs = { http_method: 'POST', retries: 3 };
+    expect(when("http_method == 'POST'", inputs)).toBe(true);
+    expect(when('http_method != "GET"', inputs)).toBe(true);
+    expect(when('retries == 3', inputs)).toBe(true);
+    expect(when('missing == null', inputs)).toBe(true);
+  });
+
+  it('combines conditions with !, && and || in the usual precedence', () => {
+    const inputs = { a: true, b: false, c: true };
+    expect(when('a && b || c', inputs)).toBe(true);
+    expect(when('a && (b || !c)', inputs)).toBe(false);
+    expect(when('!b && c', inputs)).toBe(true);
+  });
+
+  it('reads nested inputs with dot paths', () => {
+    expect(when('options.auth.enabled', { options: { auth: { enabled: true } } })).toBe(true);
+    expect(when('options.auth.enabled', { options: {} })).toBe(false);
+  });
+
+  it('lists the top-level inputs a condition reads', () => {
+    expect(conditionInputs(parseCondition("a.b && (c == 'x' || !d) && true"))).toEqual(['a', 'c', 'd']);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCondition('')).toThrow('empty expression');
+    expect(() => parseCondition('a &&')).toThrow('unexpected end of expression');
+    expect(() => parseCondition('(a || b')).toThrow("expected ')'");
+    expect(() => parseCondition('a b')).toThrow("unexpected 'b'");
+    expect(() => parseCondition('a; process.exit()')).toThrow("unexpected ';' at position 1");
+    expect(() => parseCondition("a == 'open")).toThrow('unterminated string at position 5');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { ChatMessage, ChatOptions } from '../../src/llmProvider.js';
+import {
+  StructuredOutputError,
+  chatForJson,
+  maxRepairsFromEnv,
+  parseJsonReply,
+  parseMaxRepairs
+} from '../../src/structuredOutput.js';
+
+const schema = {
+  type: 'object',
+  required: ['title', 'steps'],
+  properties: {
+    title: { type: 'string' },
+    steps: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+function scriptedChat(replies: string[]) {
+  const calls: Array<{ messages: ChatMessage[]; options: ChatOptions }> = [];
+  const chat = async (messages: ChatMessage[], options: ChatOptions) => {
+    calls.push({ messages: messages.map((m) => ({ ...m })), options });
+    const text = replies.shift();
+    if (text === undefined) throw new Error('no more replies');
+    return { text, raw: null };
+  };
+  return { chat, calls };
+}
+
+describe('parseJsonReply', () => {
+  it('parses bare and fenced JSON', () => {
+    expect(parseJsonReply('{"a":1}')).toEqual({ a: 1 });
+    expect(parseJsonReply('Here you go:\n```json\n[1, 2]\n```')).toEqual([1, 2]);
+    expect(parseJsonReply('not json')).toBeUndefined();
+  });
+});
+
+describe('chatForJson', () => {
+  afterEach(() => {
+    delete process.env.WARPOS_JSON_MAX_REPAIRS;
+  });
+
+  it('returns the parsed value and asks for JSON mode', async () => {
+    const { chat, calls } = scriptedChat(['{"title":"Ship","steps":["build"]}']);
+
+    const out = await chatForJson(chat, [{ role: 'user', content: 'Plan it' }], schema, { temperature: 0 });
+
+    expect(out).toEqual({ value: { title: 'Ship', steps: ['build'] }, text: '{"title":"Ship","steps":["build"]}', attempts: 1 });
+    expect(calls[0].options).toEqual({ temperature: 0, responseFormat: 'json' });
+    expect(calls[0].messages[0].role).toBe('system');
+    expect(calls[0].messages[0].content).toContain(JSON.stringify(schema));
+  });
+
+  it('appends the schema to an existing system message', async () => {
+    const { chat, calls } = scriptedChat(['{"title":"Ship","steps":[]}']);
+
+    await chatForJson(
+      chat,
+      [
+        { role: 'system', content: 'Framework' },
+        { role: 'user', content: 'Plan it' }
+      ],
+      schema
+    );
+
+    expect(calls[0].messages).toHaveLength(2);
+    expect(calls[0].messages[0].content).toMatch(/^Framework\n\nRespond with a single JSON value/);
+  });
+
+  it('re-prompts with the validation errors until the reply conforms', async () => {
+    const { chat, calls } = scriptedChat(['Sure! Here is the plan.', '{"title":"Ship"}', '{"title":"Ship","steps":["test"]}']);
+
+    const out = await chatForJson(chat, [{ role: 'user', content: 'Plan it' }], schema, { maxRepairs: 2 });
+
+    expect(out.attempts).toBe(3);
+    expect(out.value).toEqual({ title: 'Ship', steps: ['test'] });
+    expect(calls[1].messages.slice(-2)).toEqual([
+      { role: 'assistant', content: 'Sure! Here is the plan.' },
+      { role: 'user', content: expect.stringContaining('- reply is not valid JSON') }
+    ]);
+    expect(calls[2].messages.at(-1)!.content).toContain("- / must have required property 'steps'");
+  });
+
+  it('throws StructuredOutputError once the repairs are used up', async () => {
+    const { chat, calls } = scriptedChat(['{"title":1,"steps":[]}', '{"title":2,"steps":[]}']);
+
+    const err = await chatForJson(chat, [{ role: 'user', content: 'Plan it' }], schema, { maxRepairs: 1 }).catch(
+      (e: unknown) => e
+    );
+
+    expect(err).toBeInstanceOf(StructuredOutputError);
+    expect((err as StructuredOutputError).message).toBe(
+      'Model reply did not conform to response_schema after 2 attempts: /title must be string'
+    );
+    expect((err as StructuredOutputError).lastReply).toBe('{"title":2,"steps":[]}');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('does not request JSON mode for non-object schemas', async () => {
+    const { chat, calls } = scriptedChat(['["a"]']);
+
+    const out = await chatForJson(chat, [{ role: 'user', content: 'List' }], { type: 'array' });
+
+    expect(out.value).toEqual(['a']);
+    expect(calls[0].options.responseFormat).toBeUndefined();
+  });
+
+  it('rejects an invalid schema before calling the model', async () => {
+    const { chat, calls } = scriptedChat([]);
+
+    await expect(chatForJson(chat, [{ role: 'user', content: 'x' }], { type: 'nope' })).rejects.toThrow(
+      /^Failed to compile JSON schema \(response_schema\)/
+    );
+    expect(calls).toHaveLength(0);
+  });
+
+  it('reads the default repair count from WARPOS_JSON_MAX_REPAIRS', () => {
+    expect(maxRepairsFromEnv()).toBe(2);
+    process.env.WARPOS_JSON_MAX_REPAIRS = '0';
+    expect(maxRepairsFromEnv()).toBe(0);
+    expect(() => parseMaxRepairs(11, 'max_repairs')).toThrow('max_repairs must be an integer from 0 to 10');
+  });
+});
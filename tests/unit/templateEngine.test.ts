@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parseExpression, renderTemplate, resolveVariables, templatePlaceholders } from '../../src/templateEngine.js';
+
+const render = (text: string, scope: Record<string, unknown>) => renderTemplate(text, scope).text;
+
+describe('template engine', () => {
+  it('parses paths and filters with arguments', () => {
+    expect(parseExpression(" owner.name | default: 'n/a' | upper ")).toEqual({
+      source: "owner.name | default: 'n/a' | upper",
+      path: ['owner', 'name'],
+      filters: [
+        { name: 'default', args: ['n/a'] },
+        { name: 'upper', args: [] }
+      ]
+    });
+    expect(parseExpression("tags | join: ' | '").filters).toEqual([{ name: 'join', args: [' | '] }]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseExpression('a b')).toThrow("invalid path 'a b'");
+    expect(() => parseExpression('a | nope')).toThrow("unknown filter 'nope'");
+    expect(() => parseExpression('a | upper: 1')).toThrow('filter upper takes 0 argument(s)');
+    expect(() => parseExpression('a | default: x')).toThrow('invalid argument x');
+    expect(() => templatePlaceholders("ok {a | default: 'x}")).toThrow("{a | default: 'x}: unterminated string");
+  });
+
+  it('renders values by type', () => {
+    const scope = { s: 'text', n: 3, b: false, nil: null, o: { a: [1] } };
+    expect(render('{s} {n} {b} [{nil}]', scope)).toBe('text 3 false []');
+    expect(render('{o}', scope)).toBe('{\n  "a": [\n    1\n  ]\n}');
+    expect(render('{o | json} {s | json}', scope)).toBe('{"a":[1]} "text"');
+    expect(render('{o.a.0}', scope)).toBe('1');
+  });
+
+  it('applies case, quoting and path filters', () => {
+    const scope = { name: 'todoItems', path: '/api/user-profiles/:id', arg: "it's" };
+    expect(render('{name | pascalCase} {name | kebabCase} {name | snakeCase}', scope)).toBe(
+      'TodoItems todo-items todo_items'
+    );
+    expect(render('{path | lastSegment | camelCase}', scope)).toBe('userProfiles');
+    expect(render('echo {arg | shellQuote}', scope)).toBe("echo 'it'\\''s'");
+  });
+
+  it('lists missing values as unresolved unless a default applies', () => {
+    expect(renderTemplate('{a} {b.c} {d | upper}', { b: {} })).toEqual({
+      text: '{a} {b.c} {d | upper}',
+      unresolved: ['{a}', '{b.c}', '{d | upper}']
+    });
+    expect(render("{a | default: 'none'} {n | default: null}", {})).toBe('none ');
+  });
+
+  it('leaves braces that are not placeholders alone and unescapes {{name}}', () => {
+    expect(render('{ "a": 1 } {} { id } {{name}}', { name: 'x' })).toBe('{ "a": 1 } {} { id } {name}');
+  });
+
+  it('defers placeholders and renders only them later', () => {
+    const { scope, deferred } = resolveVariables(
+      { resource: 'path | lastSegment', title: 'resource | pascalCase', label: 'name | upper' },
+      { path: '/api/todos', name: 'list' },
+      ['path']
+    );
+    expect(scope).toEqual({ name: 'list', label: 'LIST' });
+    expect([...deferred]).toEqual(['path', 'resource', 'title']);
+
+    const prepared = renderTemplate('{label} {title} at {path | shellQuote}', scope, { defer: deferred }).text;
+    expect(prepared).toBe('LIST {title} at {path | shellQuote}');
+
+    const bound = resolveVariables(
+      { resource: 'path | lastSegment', title: 'resource | pascalCase' },
+      { path: '/api/{weird} items' }
+    ).scope;
+    const executed = renderTemplate(prepared, bound, { only: deferred }).text;
+    // Braces inside bound values are not rendered again.
+    expect(executed).toBe("LIST WeirdItems at '/api/{weird} items'");
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, diffStat, unifiedDiff } from '../../src/textDiff.js';
+
+describe('textDiff', () => {
+  describe('diffLines()', () => {
+    it('marks unchanged, removed and added lines', () => {
+      expect(diffLines('a\nb\nc\n', 'a\nc\nd\n')).toEqual([
+        { op: ' ', text: 'a' },
+        { op: '-', text: 'b' },
+        { op: ' ', text: 'c' },
+        { op: '+', text: 'd' }
+      ]);
+    });
+
+    it('treats an empty text as no lines', () => {
+      expect(diffLines('', 'x\n')).toEqual([{ op: '+', text: 'x' }]);
+    });
+  });
+
+  describe('diffStat()', () => {
+    it('counts added and removed lines', () => {
+      expect(diffStat('a\nb\n', 'a\nc\nd\n')).toEqual({ added: 2, removed: 1 });
+    });
+  });
+
+  describe('unifiedDiff()', () => {
+    it('returns an empty string for identical texts', () => {
+      expect(unifiedDiff('same\n', 'same\n')).toBe('');
+    });
+
+    it('splits distant changes into separate hunks', () => {
+      const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+      const after = before.replace('line 2', 'LINE 2').replace('line 19', 'LINE 19');
+
+      const out = unifiedDiff(before, after, { fromLabel: 'old', toLabel: 'new', context: 1 });
+
+      expect(out).toBe(
+        [
+          '--- old',
+          '+++ new',
+          '@@ -1,3 +1,3 @@',
+          ' line 1',
+          '-line 2',
+          '+LINE 2',
+          ' line 3',
+          '@@ -18,3 +18,3 @@',
+          ' line 18',
+          '-line 19',
+          '+LINE 19',
+          ' line 20',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('reports an empty old range at the preceding line', () => {
+      expect(unifiedDiff('', 'new\n')).toBe(['--- a', '+++ b', '@@ -0,0 +1,1 @@', '+new', ''].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, realpath } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { VerificationRunner, verificationOptionsFromEnv } from '../../src/verificationRunner.js';
+
+// Commands run through the shell; quote the node binary path in case it contains spaces.
+const node = JSON.stringify(process.execPath);
+
+describe('VerificationRunner', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await realpath(await mkdtemp(path.join(tmpdir(), 'warpos-verify-')));
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+    delete process.env.WARPOS_VERIFY_SECRET;
+    delete process.env.WARPOS_VERIFY_TIMEOUT_MS;
+    delete process.env.WARPOS_VERIFY_ENV_ALLOW;
+  });
+
+  describe('run()', () => {
+    it('passes when the command exits 0 and captures stdout', async () => {
+      const runner = new VerificationRunner({ cwd: workDir });
+
+      const result = await runner.run({ id: 'ok', command: `${node} -e "console.log('hello')"` });
+
+      expect(result.status).toBe('passed');
+      expect(result.exit_code).toBe(0);
+      expect(result.stdout.trim()).toBe('hello');
+      expect(result.timed_out).toBe(false);
+    });
+
+    it('fails on non-zero exit and captures stderr', async () => {
+      const runner = new VerificationRunner({ cwd: workDir });
+
+      const result = await runner.run({
+        id: 'bad',
+        command: `${node} -e "console.error('nope'); process.exit(3)"`
+      });
+
+      expect(result.status).toBe('failed');
+      expect(result.exit_code).toBe(3);
+      expect(result.stderr.trim()).toBe('nope');
+    });
+
+    it('runs in the configured working directory', async () => {
+      const runner = new VerificationRunner({ cwd: workDir });
+
+      const result = await runner.run({ id: 'cwd', command: `${node} -e "console.log(process.cwd())"` });
+
+      expect(result.stdout.trim()).toBe(workDir);
+    });
+
+    it('fails with timed_out when the command exceeds the timeout', async () => {
+      const runner = new VerificationRunner({ cwd: workDir, timeoutMs: 200 });
+
+      const result = await runner.run({ id: 'slow', command: `${node} -e "setTimeout(() => {}, 10000)"` });
+
+      expect(result.status).toBe('failed');
+      expect(result.timed_out).toBe(true);
+      expect(result.error).toBe('Timed out after 200ms');
+    });
+
+    it('kills the command and fails with Cancelled when the signal aborts', async () => {
+      const runner = new VerificationRunner({ cwd: workDir, timeoutMs: 10_000 });
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 200);
+
+      const results = await runner.runAll(
+        [
+          { id: 'slow', command: `${node} -e "setTimeout(() => {}, 10000)"` },
+          { id: 'next', command: `${node} -e "process.exit(0)"` }
+        ],
+        controller.signal
+      );
+
+      expect(results.map((r) => [r.id, r.status, r.error])).toEqual([
+        ['slow', 'failed', 'Cancelled'],
+        ['next', 'failed', 'Cancelled']
+      ]);
+      expect(results[0].timed_out).toBe(false);
+      expect(results[0].duration_ms).toBeLessThan(5000);
+    });
+
+    it('only passes allow-listed environment variables', async () => {
+      process.env.WARPOS_VERIFY_SECRET = 'leak';
+      const command = `${node} -e "console.log(process.env.WARPOS_VERIFY_SECRET ?? 'unset')"`;
+
+      const blocked = await new VerificationRunner({ cwd: workDir }).run({ id: 'env', command });
+      const allowed = await new VerificationRunner({
+        cwd: workDir,
+        envAllowList: ['PATH', 'WARPOS_VERIFY_SECRET']
+      }).run({ id: 'env', command });
+
+      expect(blocked.stdout.trim()).toBe('unset');
+      expect(allowed.stdout.trim()).toBe('leak');
+    });
+
+    it('truncates output beyond maxOutputBytes', async () => {
+      const runner = new VerificationRunner({ cwd: workDir, maxOutputBytes: 10 });
+
+      const result = await runner.run({ id: 'big', command: `${node} -e "console.log('x'.repeat(100))"` });
+
+      expect(result.status).toBe('passed');
+      expect(result.stdout).toBe('x'.repeat(10));
+      expect(result.truncated).toBe(true);
+    });
+  });
+
+  describe('runAll()', () => {
+    it('runs every command even after a failure', async () => {
+      const runner = new VerificationRunner({ cwd: workDir });
+
+      const results = await runner.runAll([
+        { id: 'first', command: `${node} -e "process.exit(1)"` },
+        { id: 'second', command: `${node} -e "process.exit(0)"` }
+      ]);
+
+      expect(results.map((r) => [r.id, r.status])).toEqual([
+        ['first', 'failed'],
+        ['second', 'passed']
+      ]);
+    });
+  });
+
+  describe('verificationOptionsFromEnv()', () => {
+    it('reads timeout and allow-list from the environment', () => {
+      process.env.WARPOS_VERIFY_TIMEOUT_MS = '5000';
+      process.env.WARPOS_VERIFY_ENV_ALLOW = 'PATH, HOME ,';
+
+      const options = verificationOptionsFromEnv();
+
+      expect(options.timeoutMs).toBe(5000);
+      expect(options.envAllowList).toEqual(['PATH', 'HOME']);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { resetZaiClientState, zaiChat } from '../../src/zaiClient.js';
+import { ModelRequestError } from '../../src/resilience.js';
+
+function sseResponse(events: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Split mid-line to exercise buffering across chunks.
+      const text = events.map((e) => `data: ${e}\n\n`).join('');
+      const mid = Math.floor(text.length / 2);
+      controller.enqueue(encoder.encode(text.slice(0, mid)));
+      controller.enqueue(encoder.encode(text.slice(mid)));
+      controller.close();
+    }
+  });
+  return new Response(body, { headers: { 'content-type': 'text/event-stream' } });
+}
+
+/** A fetch that never answers until its signal aborts. */
+const hangingFetch = (_url: unknown, init?: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+  });
+
+describe('zaiChat', () => {
+  const env = ['ZAI_API_KEY', 'ZAI_TIMEOUT_MS', 'ZAI_MAX_RETRIES', 'ZAI_RETRY_BASE_DELAY_MS', 'ZAI_CIRCUIT_FAILURE_THRESHOLD'];
+
+  beforeEach(() => {
+    process.env.ZAI_API_KEY = 'test-key';
+    process.env.ZAI_MAX_RETRIES = '0';
+    resetZaiClientState();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    for (const name of env) delete process.env[name];
+  });
+
+  it('returns the message content of a non-streaming reply', async () => {
+    const fetchMock = vi.fn(async () => Response.json({ choices: [{ message: { content: 'hello' } }] }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const out = await zaiChat([{ role: 'user', content: 'hi' }]);
+
+    expect(out.text).toBe('hello');
+    const body = JSON.parse((fetchMock.mock.calls[0] as any)[1].body);
+    expect(body.stream).toBeUndefined();
+  });
+
+  it('accumulates streamed deltas and reports each one', async () => {
+    const fetchMock = vi.fn(async () =>
+      sseResponse([
+        JSON.stringify({ model: 'm', choices: [{ delta: { content: 'Hel' } }] }),
+        JSON.stringify({ choices: [{ delta: { content: 'lo' }, finish_reason: 'stop' }] }),
+        '[DONE]'
+      ])
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const deltas: Array<[string, string]> = [];
+
+    const out = await zaiChat([{ role: 'user', content: 'hi' }], {
+      stream: true,
+      onDelta: (delta, text) => deltas.push([delta, text])
+    });
+
+    expect(out.text).toBe('Hello');
+    expect(deltas).toEqual([
+      ['Hel', 'Hel'],
+      ['lo', 'Hello']
+    ]);
+    expect((out.raw as any).choices[0]).toMatchObject({ message: { content: 'Hello' }, finish_reason: 'stop' });
+    expect(JSON.parse((fetchMock.mock.calls[0] as any)[1].body).stream).toBe(true);
+  });
+
+  it('falls back to a single delta when the server ignores stream: true', async () => {
+    vi.stubGlobal('fetch', async () => Response.json({ choices: [{ message: { content: 'whole' } }] }));
+    const deltas: string[] = [];
+
+    const out = await zaiChat([{ role: 'user', content: 'hi' }], { stream: true, onDelta: (d) => deltas.push(d) });
+
+    expect(out.text).toBe('whole');
+    expect(deltas).toEqual(['whole']);
+  });
+
+  it('includes the status in errors', async () => {
+    vi.stubGlobal('fetch', async () => Response.json({ error: 'bad key' }, { status: 401 }));
+
+    await expect(zaiChat([{ role: 'user', content: 'hi' }])).rejects.toThrow(
+      'z.ai request failed (401): {"error":"bad key"}'
+    );
+  });
+
+  it('times out after timeoutMs', async () => {
+    vi.stubGlobal('fetch', hangingFetch);
+
+    await expect(zaiChat([{ role: 'user', content: 'hi' }], { timeoutMs: 50 })).rejects.toThrow(
+      'z.ai request timed out after 50ms'
+    );
+  });
+
+  it('reads the default timeout from ZAI_TIMEOUT_MS', async () => {
+    process.env.ZAI_TIMEOUT_MS = '40';
+    vi.stubGlobal('fetch', hangingFetch);
+
+    await expect(zaiChat([{ role: 'user', content: 'hi' }])).rejects.toThrow('z.ai request timed out after 40ms');
+  });
+
+  it('is cancelled by the caller\'s signal', async () => {
+    vi.stubGlobal('fetch', hangingFetch);
+    const controller = new AbortController();
+
+    const pending = zaiChat([{ role: 'user', content: 'hi' }], { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('z.ai request cancelled');
+  });
+
+  describe('retries', () => {
+    beforeEach(() => {
+      process.env.ZAI_MAX_RETRIES = '2';
+      process.env.ZAI_RETRY_BASE_DELAY_MS = '1';
+    });
+
+    it('retries transient failures and succeeds', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(Response.json({ error: 'busy' }, { status: 503 }))
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(Response.json({ choices: [{ message: { content: 'ok' } }] }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const out = await zaiChat([{ role: 'user', content: 'hi' }]);
+
+      expect(out.text).toBe('ok');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('honours Retry-After on 429', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(Response.json({}, { status: 429, headers: { 'retry-after': '0.05' } }))
+        .mockResolvedValueOnce(Response.json({ choices: [{ message: { content: 'ok' } }] }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const started = Date.now();
+      await zaiChat([{ role: 'user', content: 'hi' }]);
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports attempts and classification once retries are exhausted', async () => {
+      const fetchMock = vi.fn(async () => Response.json({ error: 'busy' }, { status: 503 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const err = await zaiChat([{ role: 'user', content: 'hi' }]).catch((e: unknown) => e);
+
+      expect(err).toBeInstanceOf(ModelRequestError);
+      expect(err).toMatchObject({ classification: 'server_error', attempts: 3, status: 503 });
+      expect((err as Error).message).toBe('z.ai request failed (503): {"error":"busy"} [server_error after 3 attempts]');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry client errors', async () => {
+      const fetchMock = vi.fn(async () => Response.json({ error: 'bad request' }, { status: 400 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await expect(zaiChat([{ role: 'user', content: 'hi' }])).rejects.toMatchObject({
+        classification: 'client_error',
+        attempts: 1
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails fast once the circuit breaker opens', async () => {
+      process.env.ZAI_MAX_RETRIES = '0';
+      process.env.ZAI_CIRCUIT_FAILURE_THRESHOLD = '2';
+      const fetchMock = vi.fn(async () => Response.json({}, { status: 500 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await expect(zaiChat([{ role: 'user', content: 'hi' }])).rejects.toMatchObject({ classification: 'server_error' });
+      await expect(zaiChat([{ role: 'user', content: 'hi' }])).rejects.toMatchObject({ classification: 'server_error' });
+      await expect(zaiChat([{ role: 'user', content: 'hi' }])).rejects.toMatchObject({
+        classification: 'circuit_open',
+        attempts: 0
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+});